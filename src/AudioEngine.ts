@@ -0,0 +1,2455 @@
+import {
+    AudioProcessorEventMessage,
+    AutomationCurve,
+    AudioProcessorPostMessage,
+    DriveSettings,
+    DynamicsSettings,
+    EffectsSettings,
+    EQBand,
+    ModulationSettings,
+    ParameterRampData,
+    PlayMessageData,
+    SpatialSettings,
+    StopMessageData,
+    LowPassFilterSettings,
+    LimiterSettings,
+    ExtendedTrack,
+    FadeCurve,
+    InterpolationQuality,
+    LoopRegionMessageData,
+    PolyphonySettings,
+    RegisterAudioMessageData,
+    TimeStretchSettings,
+    VisualizerBand,
+    VisualizerSettings,
+    isVisualizerBand,
+} from './types';
+import { BiquadCoefficients, computeBiquadCoefficients, isIdentityBand } from './biquad';
+import { BrickwallLimiter } from './limiter';
+import { SpectrumAnalyzer } from './spectrum';
+import { LevelMeter } from './meter';
+import { semitonesToRatio, TimeStretcher } from './timeStretch';
+import { readSample } from './resample';
+
+interface InitialSettings {
+    eq: EQBand[];
+    modulation: ModulationSettings;
+    effects: EffectsSettings;
+    drive: DriveSettings;
+    dynamics: DynamicsSettings;
+    volume: number;
+    spatial: SpatialSettings;
+}
+
+/**
+ * 재생할 채널 데이터가 정해진 재생 데이터 (직접 전달된 channels 또는 등록된 오디오 데이터)
+ */
+type ResolvedPlayData = PlayMessageData & { channels: Float32Array[] };
+
+/**
+ * 특정 프레임에 실행될 예약 이벤트 (트랙별 큐에 프레임 순으로 보관)
+ */
+interface ScheduledEvent {
+    /** 실행 시점 (AudioContext 샘플 프레임) */
+    frame: number;
+    type: 'play' | 'stop';
+    /** 'play' 시 재생할 데이터 (채널 데이터는 이미 정해진 상태) */
+    data?: ResolvedPlayData;
+    /** 'stop' 시 페이드 아웃 설정 */
+    stopData?: StopMessageData;
+}
+
+/**
+ * 트랙 페이드 (elapsed가 0 ~ length 동안 from → to, 음수면 시작 전이라 from 유지)
+ */
+interface TrackFade {
+    from: number;
+    to: number;
+    length: number;
+    elapsed: number;
+    curve: FadeCurve;
+    /** 페이드가 끝나면 트랙을 정지할지 여부 (페이드 아웃) */
+    stopAtEnd: boolean;
+}
+
+/**
+ * 파라미터 자동화 구간 (startFrame → endFrame 동안 startValue → endValue)
+ */
+interface AutomationSegment {
+    startFrame: number;
+    endFrame: number;
+    startValue: number;
+    endValue: number;
+    curve: AutomationCurve;
+}
+
+/**
+ * 트랙(보이스) 대상 메시지 - 키로 보내면 그 키의 모든 보이스에, 보이스 ID로 보내면 해당 보이스에만 적용
+ */
+const VOICE_MESSAGE_TYPES = new Set<AudioProcessorPostMessage['type']>([
+    'stop',
+    'pause',
+    'resume',
+    'seek',
+    'clear',
+    'adjustVolume',
+    'adjustPlaybackRate',
+    'adjustTimeStretch',
+    'setLoopRegion',
+    'adjustEQ',
+    'adjustModulation',
+    'adjustSpatial',
+    'adjustEffects',
+    'adjustDrive',
+    'adjustDynamics',
+    'rampParameter',
+    'cancelParameterRamps',
+]);
+
+/**
+ * 키로 보내면 키 단위 설정으로도 저장해, 이후 새로 만들어지는 그 키의 보이스에 적용하는 메시지
+ */
+const KEY_SETTING_MESSAGE_TYPES = new Set<AudioProcessorPostMessage['type']>([
+    'adjustVolume',
+    'adjustEQ',
+    'adjustModulation',
+    'adjustSpatial',
+    'adjustEffects',
+    'adjustDrive',
+    'adjustDynamics',
+]);
+
+/**
+ * adjust* 스무딩에서 제외하는 파라미터 (딜레이 라인 읽기 위치를 바꾸는 시간 값)
+ * 값을 미끄러지듯 바꾸면 클릭 대신 피치가 휘므로 즉시 적용합니다.
+ */
+const UNSMOOTHED_PARAMETERS = new Set<string>(['effects.delay', 'effects.echo', 'dynamics.lookaheadMs']);
+
+/** 보이스를 빼앗길 때 클릭을 막기 위한 페이드 아웃 시간 (ms) */
+const STEAL_FADE_MS = 5;
+
+/**
+ * 호스트에 의존하지 않는 오디오 엔진 (믹싱, 이펙트 체인, 마스터 처리, 분석)
+ * AudioWorkletProcessor는 이 엔진을 감싸는 어댑터이며, Node 등 다른 환경에서도 그대로 사용할 수 있습니다.
+ */
+export class AudioEngine {
+    // 샘플레이트 (Hz)
+    private readonly sampleRate: number;
+    // 다음에 렌더링할 블록의 시작 프레임 (AudioWorklet의 currentFrame에 해당)
+    private currentFrame: number = 0;
+    // 메인 스레드(또는 호스트)로 이벤트 메시지를 전달하는 함수
+    private readonly post: (message: AudioProcessorEventMessage) => void;
+    // 재생 중인 보이스 (보이스 ID → 트랙, 기본 보이스의 ID는 키와 같음)
+    private tracks: Map<string, ExtendedTrack>;
+    // 등록된 오디오 데이터 (ID → 채널 데이터, 보이스들이 복사 없이 공유)
+    private audioData: Map<string, RegisterAudioMessageData> = new Map();
+    // 보이스 ID → 키 (예약된 보이스 포함)
+    private voiceKeys: Map<string, string> = new Map();
+    // 키별 동시 재생 설정 (없으면 제한 없음)
+    private polyphony: Map<string, PolyphonySettings> = new Map();
+    // 키로 보낸 설정 메시지 (키 → 메시지 타입 → data, 새 보이스를 이 설정으로 시작)
+    private keySettings: Map<string, Map<AudioProcessorPostMessage['type'], AudioProcessorPostMessage['data']>> = new Map();
+    // 보이스별 시작 프레임과 직전 블록 피크 레벨 (스틸링 대상 선택용)
+    private voiceStartFrames: Map<string, number> = new Map();
+    private voiceLevels: Map<string, number> = new Map();
+    private masterVolume: number;
+    private eqSettings: Map<string, EQBand[]>;
+    private modulationSettings: Map<string, ModulationSettings>;
+    private effectsSettings: Map<string, EffectsSettings>;
+    private driveSettings: Map<string, DriveSettings>;
+    private dynamicsSettings: Map<string, DynamicsSettings>;
+    private volumeSettings: Map<string, number>;
+    private spatialSettings: Map<string, SpatialSettings>;
+    // 트랙별 예약 이벤트 큐 (frame 오름차순)
+    private scheduledEvents: Map<string, ScheduledEvent[]> = new Map();
+    // 트랙별 파라미터 자동화 (경로 → 구간 큐)
+    private automationLanes: Map<string, Map<string, AutomationSegment[]>> = new Map();
+    // adjust* 호출 시 숫자 파라미터가 새 값으로 변하는 데 걸리는 시간 (샘플, 기본 20ms)
+    private smoothingSamples: number;
+    // 자동화 중인 트랙은 볼륨을 제외한 파라미터를 이 크기(프레임)의 구간마다 갱신합니다.
+    private readonly AUTOMATION_CONTROL_SIZE = 32;
+    // 자동화 중인 볼륨의 샘플별 게인
+    private automationGains: Float32Array = new Float32Array(0);
+    // 블록마다 재사용하는 예약 처리 결과 (트랙별 재생 구간, 정지 예정 트랙)
+    private blockRanges: Map<string, [number, number]> = new Map();
+    private pendingStops: Set<string> = new Set();
+    // 이번 블록에서 끝나거나 정지된 추가 보이스 (블록 처리 후 해제)
+    private finishedVoices: string[] = [];
+    // 블록 중간에서 다시 재생한 트랙의 이전 재생 출력 (재생 시작 전까지, 이번 블록에 렌더링된 트랙만 유효)
+    private retriggerBuffers: Map<string, Float32Array[]> = new Map();
+    private retriggeredKeys: Set<string> = new Set();
+    // 레거시 블록 단위 노멀라이즈 (리미터 도입 전 동작)
+    private normalizeEnabled: boolean = false;
+    // 마스터 브릭월 리미터 (마스터 볼륨/로우패스 이후 적용)
+    private readonly limiter: BrickwallLimiter;
+    private limiterEnabled: boolean = false;
+    private latencySamples: number = 0;
+    private readonly maxLatencySamples: number;
+    // 출력 채널별 레이턴시 버퍼 (채널 수가 바뀌면 다시 할당)
+    private delayBuffers: Float32Array[] = [];
+    private delayBufferIndex: number = 0;
+
+    // 마스터 로우패스 필터 (null이면 비활성)
+    private lowPassCoefficients: BiquadCoefficients | null = null;
+    // 채널별 필터 상태 [x1, x2, y1, y2]
+    private lowPassStates: Float64Array[] = [];
+
+    // 재생 위치 보고 주기 (샘플 단위, 0이면 보고하지 않음 - 기본 100ms)
+    private positionReportInterval: number;
+    private positionReportCounter: number = 0;
+
+    // 레벨/라우드니스 미터 ('' = 마스터, 그 외 트랙) - 보고 주기가 0이면 측정하지 않음
+    private meters: Map<string, LevelMeter> = new Map();
+    private meterReportInterval: number = 0;
+    private meterReportCounter: number = 0;
+
+    // 트랙 데이터 보간 품질 (전역 기본값과 트랙별 지정값)
+    private interpolationQuality: InterpolationQuality = 'linear';
+    private trackInterpolation: Map<string, InterpolationQuality> = new Map();
+
+    // 트랙별 진행 중인 페이드 인/아웃
+    private fades: Map<string, TrackFade> = new Map();
+
+    // 템포/피치가 기본값이 아닌 트랙의 타임 스트레처 (기본값이면 일반 보간 재생)
+    private timeStretchers: Map<string, TimeStretcher> = new Map();
+
+    // 현재 출력 채널 수 (process 호출 시 노드의 실제 채널 수로 갱신)
+    private channelCount: number = 0;
+    // 트랙 처리용 채널별 임시 버퍼 (블록마다 재사용)
+    private trackBuffers: Float32Array[] = [];
+    // 키별 분석(스펙트럼/미터)용 보이스 합산 버퍼와 이번 블록에 합산된 키
+    private analysisBuffers: Map<string, Float32Array[]> = new Map();
+    private analysisKeys: Set<string> = new Set();
+
+    // ── 이펙트용 버퍼 및 상태 변수 ──
+    // 버퍼는 [채널] 단위로 보관하고, 쓰기 인덱스는 모든 채널이 공유합니다.
+    // Delay/Echo 효과용 버퍼 (트랙별, 채널당 2초라 효과를 처음 사용할 때 할당)
+    private delayEffectBuffers: Map<string, Float32Array[]> = new Map();
+    private delayEffectWriteIndices: Map<string, number> = new Map();
+    private echoEffectBuffers: Map<string, Float32Array[]> = new Map();
+    private echoEffectWriteIndices: Map<string, number> = new Map();
+    
+    // Chorus/Flanger 효과용 버퍼 (트랙별)
+    private chorusBuffers: Map<string, Float32Array[]> = new Map();
+    private chorusWriteIndices: Map<string, number> = new Map();
+    
+    // Reverb 효과용 - Schroeder Reverb implementation ([채널][필터])
+    private reverbCombBuffers: Map<string, Float32Array[][]> = new Map();
+    private reverbCombIndices: Map<string, number[]> = new Map();
+    private reverbAllpassBuffers: Map<string, Float32Array[][]> = new Map();
+    private reverbAllpassIndices: Map<string, number[]> = new Map();
+    
+    // 모듈레이션 LFO 위상 추적 (트랙별)
+    private modulationPhases: Map<string, number> = new Map();
+
+    // EQ biquad 필터 상태 (트랙별 [채널][밴드 * 2 (z1, z2)]) - 블록 간 유지
+    private eqStates: Map<string, Float64Array[]> = new Map();
+    // EQ 밴드별 계수 캐시 (트랙별 [밴드], 계산에 쓴 밴드 값과 함께 보관)
+    private eqCoefficients: Map<string, (EQBand & { coefficients: BiquadCoefficients })[]> = new Map();
+    // 컴프레서 게인 리덕션 엔벨로프 (트랙별, dB) - 블록 간 유지
+    private dynamicsEnvelopes: Map<string, number> = new Map();
+    // 컴프레서 룩어헤드 지연 버퍼 (트랙별 [채널])
+    private lookaheadBuffers: Map<string, Float32Array[]> = new Map();
+    private lookaheadWriteIndices: Map<string, number> = new Map();
+    // 보고 주기 동안의 최대 게인 리덕션 (트랙별, dB)
+    private gainReductionPeaks: Map<string, number> = new Map();
+    
+    // 버퍼 크기 상수
+    private readonly MAX_DELAY_SAMPLES: number; // 최대 2초 딜레이
+    private readonly MAX_CHORUS_SAMPLES: number; // 최대 50ms 코러스 딜레이
+    private readonly MAX_LOOKAHEAD_SAMPLES: number; // 최대 20ms 룩어헤드
+    
+    // Schroeder Reverb 파라미터
+    private readonly COMB_DELAYS = [1557, 1617, 1491, 1422]; // 샘플 단위 콤 필터 딜레이
+    private readonly ALLPASS_DELAYS = [225, 556, 441, 341]; // 샘플 단위 올패스 필터 딜레이
+
+    // 스펙트럼 분석기 (''는 마스터 출력, 그 외는 해당 트랙의 처리된 버퍼)
+    private visualizers: Map<string, SpectrumAnalyzer>;
+    // 모든 분석기에 공통으로 적용되는 버퍼 크기/분석 설정 (새 분석기에도 적용)
+    private visualizerBufferSize: number = 128;
+    private visualizerSettings: VisualizerSettings = {};
+
+    private readonly initialSettings: InitialSettings = {
+        eq: [
+            { frequency: 60, gain: 0 },
+            { frequency: 170, gain: 0 },
+            { frequency: 310, gain: 0 },
+            { frequency: 600, gain: 0 },
+            { frequency: 1000, gain: 0 },
+            { frequency: 3000, gain: 0 },
+            { frequency: 6000, gain: 0 },
+            { frequency: 12000, gain: 0 },
+        ],
+        modulation: {
+            type: 'chorus',
+            depth: 0,
+            rate: 0,
+        },
+        effects: {
+            delay: 0,
+            reverb: 0,
+            echo: 0,
+            loop: false,
+        },
+        drive: {
+            distortion: 0,
+            overdrive: 0,
+            fuzz: 0,
+        },
+        dynamics: {
+            threshold: -24,
+            ratio: 4,
+            attackMs: 10,
+            releaseMs: 100,
+            kneeDb: 6,
+            makeupDb: 0,
+            lookaheadMs: 0,
+        },
+        volume: 1,
+        spatial: {
+            pan: 0,
+            width: 1,
+        },
+    };
+
+    /**
+     * @param sampleRate - 샘플레이트 (Hz)
+     * @param post - 이벤트 메시지(위치, 상태, 분석 결과 등)를 받을 함수
+     */
+    constructor(sampleRate: number, post: (message: AudioProcessorEventMessage) => void) {
+        this.sampleRate = sampleRate;
+        this.post = post;
+
+        this.tracks = new Map();
+        this.eqSettings = new Map();
+        this.modulationSettings = new Map();
+        this.effectsSettings = new Map();
+        this.driveSettings = new Map();
+        this.dynamicsSettings = new Map();
+        this.volumeSettings = new Map();
+        this.spatialSettings = new Map();
+        this.masterVolume = 0.5;
+
+        this.smoothingSamples = Math.round(sampleRate * 0.02);
+        this.limiter = new BrickwallLimiter(sampleRate);
+        this.maxLatencySamples = sampleRate;
+        this.positionReportInterval = Math.round(sampleRate * 0.1);
+        this.MAX_DELAY_SAMPLES = sampleRate * 2;
+        this.MAX_CHORUS_SAMPLES = Math.round(sampleRate * 0.05);
+        this.MAX_LOOKAHEAD_SAMPLES = Math.round(sampleRate * 0.02);
+        this.visualizers = new Map([['', new SpectrumAnalyzer(sampleRate)]]);
+    }
+
+    /**
+     * 메인 스레드에서 전달된 메시지를 처리합니다.
+     */
+    public handleMessage(message: AudioProcessorPostMessage): void {
+        const { type, key } = message;
+
+        // 키로 보낸 설정은 저장해 두었다가 나중에 만들어지는 보이스에도 적용합니다.
+        if (KEY_SETTING_MESSAGE_TYPES.has(type) && !this.isInstanceVoice(key)) {
+            let settings = this.keySettings.get(key);
+            if (!settings) {
+                settings = new Map();
+                this.keySettings.set(key, settings);
+            }
+            settings.set(type, message.data);
+        }
+
+        // 키로 보낸 트랙 메시지는 그 키의 모든 보이스에 나눠 적용합니다.
+        if (VOICE_MESSAGE_TYPES.has(type)) {
+            const voiceIds = this.getVoiceIds(key);
+            if (voiceIds.length > 1 || (voiceIds.length === 1 && voiceIds[0] !== key)) {
+                for (const voiceId of voiceIds) {
+                    this.dispatchMessage({ ...message, key: voiceId });
+                }
+                if (type === 'clear') this.clearKey(key);
+                return;
+            }
+        }
+        this.dispatchMessage(message);
+    }
+
+    /**
+     * 메시지를 하나의 보이스(또는 키 단위 설정)에 적용합니다.
+     */
+    private dispatchMessage(message: AudioProcessorPostMessage): void {
+        const { type, key, data } = message;
+
+        switch (type) {
+            // 오디오 데이터 등록: 이후 같은 key(또는 audioId)로 channels 없이 재생할 수 있습니다.
+            case 'registerAudio':
+                if (data && typeof data === 'object' && 'channels' in data) {
+                    const { channels, sampleRate } = data as RegisterAudioMessageData;
+                    if (channels && channels.length > 0) {
+                        this.audioData.set(key, { channels, sampleRate: sampleRate > 0 ? sampleRate : this.sampleRate });
+                    }
+                }
+                break;
+            // 재생 (data.startFrame이 있으면 해당 프레임에 시작하도록 예약, data.voiceId가 있으면 해당 보이스로 재생)
+            // channels가 없으면 등록된 오디오 데이터를 복사 없이 그대로 읽습니다.
+            case 'play':
+                if (data && typeof data === 'object') {
+                    const playData = this.resolvePlayData(key, data as PlayMessageData);
+                    if (!playData) break;
+                    const voiceId = typeof playData.voiceId === 'string' ? playData.voiceId : key;
+                    this.voiceKeys.set(voiceId, key);
+                    if (typeof playData.startFrame === 'number') {
+                        this.scheduleEvent(voiceId, { frame: playData.startFrame, type: 'play', data: playData });
+                    } else {
+                        this.scheduledEvents.delete(voiceId);
+                        this.startTrack(voiceId, playData);
+                    }
+                }
+                break;
+            // 정지: 재생을 멈추고 처음 위치로 되돌립니다. (data.stopFrame이 있으면 예약, fadeOutMs가 있으면 페이드 아웃 후 정지)
+            case 'stop': {
+                const stopData: StopMessageData = data && typeof data === 'object' ? (data as StopMessageData) : {};
+                if (typeof stopData.stopFrame === 'number') {
+                    this.scheduleEvent(key, { frame: stopData.stopFrame, type: 'stop', stopData });
+                } else {
+                    this.scheduledEvents.delete(key);
+                    if (!this.startFadeOut(key, stopData)) {
+                        this.stopTrack(key);
+                        // 추가 보이스는 정지하면 해제합니다.
+                        if (this.isInstanceVoice(key)) this.clearTrack(key);
+                    }
+                }
+                break;
+            }
+            // 일시 정지: readIndex를 유지한 채 재생만 멈춥니다.
+            case 'pause':
+                if (this.tracks.has(key)) {
+                    const track = this.tracks.get(key)!;
+                    track.isPlaying = false;
+                    this.postPosition(key, track);
+                }
+                break;
+            // 재개: 멈춘 위치(readIndex)부터 다시 재생합니다.
+            case 'resume':
+                if (this.tracks.has(key)) {
+                    const track = this.tracks.get(key)!;
+                    if (track.readIndex < track.data[0].length - 1) {
+                        track.isPlaying = true;
+                    }
+                    this.postPosition(key, track);
+                }
+                break;
+            // 탐색 (data: 초 단위 위치)
+            case 'seek': {
+                const seconds = Number(data);
+                const track = this.tracks.get(key);
+                if (track && Number.isFinite(seconds)) {
+                    const lastIndex = Math.max(0, track.data[0].length - 1);
+                    track.readIndex = Math.min(Math.max(0, seconds * track.sampleRate), lastIndex);
+                    this.timeStretchers.get(key)?.reset();
+                    this.postPosition(key, track);
+                }
+                break;
+            }
+            // 미터 보고 주기 설정 (data: 밀리초, 0이면 측정 중단)
+            case 'setMeterInterval': {
+                const ms = Number(data);
+                if (Number.isFinite(ms) && ms >= 0) {
+                    this.meterReportInterval = Math.round((ms * this.sampleRate) / 1000);
+                    this.meterReportCounter = 0;
+                    if (this.meterReportInterval === 0) {
+                        this.meters.clear();
+                    }
+                }
+                break;
+            }
+            // 미터 누적값(통합 라우드니스 등) 초기화 (data가 true면 전체)
+            case 'resetMeters':
+                if (data === true) {
+                    for (const meter of this.meters.values()) meter.reset();
+                } else {
+                    this.meters.get(key)?.reset();
+                }
+                break;
+            // 재생 위치 보고 주기 설정 (data: 밀리초, 0이면 비활성)
+            case 'setPositionReportInterval': {
+                const ms = Number(data);
+                if (Number.isFinite(ms) && ms >= 0) {
+                    this.positionReportInterval = Math.round((ms * this.sampleRate) / 1000);
+                    this.positionReportCounter = 0;
+                }
+                break;
+            }
+            case 'clear':
+                this.clearTrack(key);
+                this.clearKey(key);
+                break;
+            // 키별 최대 동시 재생 수와 스틸링 정책 설정 (maxVoices가 0 이하면 제한 해제)
+            case 'setPolyphony':
+                if (data && typeof data === 'object' && 'maxVoices' in data) {
+                    const maxVoices = Math.floor(Number(data.maxVoices));
+                    if (maxVoices > 0) {
+                        this.polyphony.set(key, { maxVoices, steal: data.steal ?? 'oldest' });
+                    } else {
+                        this.polyphony.delete(key);
+                    }
+                }
+                break;
+            // 트랙 볼륨 조절 (data: 0.0 ~ 1.0)
+            case 'adjustVolume': {
+                const volume = Number(data);
+                if (Number.isFinite(volume)) {
+                    const previous = this.volumeSettings.get(key);
+                    this.cancelAutomation(key, 'volume');
+                    this.volumeSettings.set(key, Math.max(0, volume));
+                    if (previous !== undefined) {
+                        this.smoothParameter(key, 'volume', previous, Math.max(0, volume));
+                    }
+                }
+                break;
+            }
+            // 재생 중인 트랙의 배속 변경 (readIndex 증가량)
+            case 'adjustPlaybackRate': {
+                const rate = Number(data);
+                const track = this.tracks.get(key);
+                if (track && Number.isFinite(rate) && rate > 0) {
+                    track.playbackRate = rate;
+                }
+                break;
+            }
+            // 재생 중인 트랙의 템포/피치 변경 (지정한 항목만 변경)
+            case 'adjustTimeStretch': {
+                const track = this.tracks.get(key);
+                if (track && data && typeof data === 'object') {
+                    this.applyTimeStretch(track, data as TimeStretchSettings);
+                }
+                break;
+            }
+            // 재생 중인 트랙의 루프 구간/반복 횟수/루프 여부 변경 (지정한 항목만 변경)
+            case 'setLoopRegion': {
+                const track = this.tracks.get(key);
+                if (track && data && typeof data === 'object') {
+                    this.applyLoopRegion(track, data as LoopRegionMessageData);
+                }
+                break;
+            }
+            // 보간 품질 설정 (key가 ''이면 전역 기본값, 트랙 키에 null이면 전역 기본값을 따름)
+            case 'setInterpolation':
+                if (data === 'linear' || data === 'cubic' || data === 'sinc') {
+                    if (key === '') {
+                        this.interpolationQuality = data;
+                    } else {
+                        this.trackInterpolation.set(key, data);
+                    }
+                } else if (data === null && key !== '') {
+                    this.trackInterpolation.delete(key);
+                }
+                break;
+            // 마스터 볼륨 조절 (key는 사용하지 않음)
+            case 'adjustMasterVolume': {
+                const volume = Number(data);
+                if (Number.isFinite(volume)) {
+                    this.masterVolume = Math.max(0, volume);
+                }
+                break;
+            }
+            // 마스터 로우패스 필터 설정 (key는 사용하지 않음)
+            case 'setLowPassFilter':
+                if (data && typeof data === 'object' && 'cutoff' in data) {
+                    this.setLowPassFilter(data as LowPassFilterSettings);
+                }
+                break;
+            // 마스터 리미터 설정 (key는 사용하지 않음)
+            case 'setLimiter':
+                if (data && typeof data === 'object' && 'enabled' in data) {
+                    const settings = data as LimiterSettings;
+                    this.limiterEnabled = Boolean(settings.enabled);
+                    this.limiter.configure(settings);
+                }
+                break;
+            // 트랙 설정 변경: 숫자 파라미터는 smoothingSamples 동안 새 값으로 변화합니다.
+            case 'adjustSpatial':
+                this.spatialSettings.set(key, this.smoothSettings(key, 'spatial.', this.spatialSettings.get(key), data as SpatialSettings));
+                break;
+            case 'adjustEQ':
+                if (Array.isArray(data)) {
+                    const bands = data as EQBand[];
+                    const previous = this.eqSettings.get(key);
+                    this.cancelAutomation(key, 'eq.');
+                    // 밴드 구성이 같을 때만 밴드별로 부드럽게 변화
+                    const smooth = previous !== undefined && previous.length === bands.length;
+                    this.eqSettings.set(
+                        key,
+                        bands.map((band, index) =>
+                            smooth ? this.smoothSettings(key, `eq.${index}.`, previous[index], band) : { ...band }
+                        )
+                    );
+                }
+                break;
+            case 'adjustModulation':
+                this.modulationSettings.set(key, this.smoothSettings(key, 'modulation.', this.modulationSettings.get(key), data as ModulationSettings));
+                break;
+            case 'adjustEffects':
+                this.effectsSettings.set(key, this.smoothSettings(key, 'effects.', this.effectsSettings.get(key), data as EffectsSettings));
+                break;
+            case 'adjustDrive':
+                this.driveSettings.set(key, this.smoothSettings(key, 'drive.', this.driveSettings.get(key), data as DriveSettings));
+                break;
+            case 'adjustDynamics':
+                this.dynamicsSettings.set(key, this.smoothSettings(key, 'dynamics.', this.dynamicsSettings.get(key), data as DynamicsSettings));
+                break;
+            // 파라미터 자동화: 이전 자동화 구간 끝(없으면 현재)부터 endFrame까지 목표 값으로 변화
+            case 'rampParameter':
+                if (data && typeof data === 'object' && 'path' in data && 'endFrame' in data) {
+                    this.scheduleRamp(key, data as ParameterRampData);
+                }
+                break;
+            // 파라미터 자동화 취소 (path 생략 시 트랙의 모든 자동화 취소, 현재 값 유지)
+            case 'cancelParameterRamps': {
+                const path = data && typeof data === 'object' && 'path' in data ? data.path : undefined;
+                this.cancelAutomation(key, path ?? '');
+                break;
+            }
+            // adjust* 스무딩 시간 설정 (data: 밀리초, 0이면 즉시 적용)
+            case 'setParameterSmoothing': {
+                const ms = Number(data);
+                if (Number.isFinite(ms) && ms >= 0) {
+                    this.smoothingSamples = Math.round((ms * this.sampleRate) / 1000);
+                }
+                break;
+            }
+            // 레거시 노멀라이즈 기능 조절 (블록마다 피크를 1로 맞춤)
+            case 'adjustNormalize':
+                this.normalizeEnabled = Boolean(data);
+                break;
+            // 출력 레이턴시 조절 (data: 밀리초 단위)
+            case 'adjustLatency':
+                this.latencySamples = Math.round((Number(data) * this.sampleRate) / 1000);
+                break;
+            // 출력 레이턴시 조절 (data: 샘플 단위)
+            case 'adjustLatencySamples':
+                this.latencySamples = Math.min(Math.max(0, Math.round(Number(data))), this.maxLatencySamples);
+                break;
+            // 비주얼라이저 대역 설정
+            case 'setVisualizerBands':
+                if (Array.isArray(data) && data.every(isVisualizerBand)) {
+                    this.setVisualizerBands(key, data);
+                }
+                break;
+            // 비주얼라이저 FFT 버퍼 크기 설정 (32 ~ 16384, 2의 거듭제곱, 모든 분석기 공통)
+            case 'setVisualizerBufferSize': {
+                const size = Number(data);
+                if (this.visualizers.get('')!.setBufferSize(size)) {
+                    this.visualizerBufferSize = size;
+                    for (const analyzer of this.visualizers.values()) {
+                        analyzer.setBufferSize(size);
+                    }
+                }
+                break;
+            }
+            // 비주얼라이저 윈도우/스무딩/출력 단위 설정 (모든 분석기 공통)
+            case 'setVisualizerSettings':
+                if (data && typeof data === 'object' && !Array.isArray(data)) {
+                    this.visualizerSettings = { ...(data as VisualizerSettings) };
+                    for (const analyzer of this.visualizers.values()) {
+                        analyzer.configure(this.visualizerSettings);
+                    }
+                }
+                break;
+        }
+    }
+
+    /**
+     * 한 블록을 렌더링합니다.
+     * @param output - 채널별 출력 버퍼 (0으로 채워진 상태, 채널 수/길이는 호스트가 결정)
+     * @param frame - 블록 시작 프레임 (생략하면 이전 블록에 이어서)
+     */
+    public process(output: Float32Array[], frame: number = this.currentFrame): void {
+        if (output.length === 0) return;
+        this.currentFrame = frame;
+
+        // 노드의 실제 출력 채널 수를 따릅니다. (모노 출력이면 1채널)
+        const channelCount = output.length;
+        const blockSize = output[0].length;
+        if (channelCount !== this.channelCount) {
+            this.setChannelCount(channelCount);
+        }
+        if (this.trackBuffers.length === 0 || this.trackBuffers[0].length !== blockSize) {
+            this.trackBuffers = this.createChannelBuffers(blockSize);
+            this.analysisBuffers.clear();
+        }
+
+        // 출력 버퍼 초기화 (fill 사용)
+        for (const channel of output) {
+            channel.fill(0);
+        }
+
+        // 위치 보고 시점 판단 (블록 단위)
+        let reportPositions = false;
+        if (this.positionReportInterval > 0) {
+            this.positionReportCounter += blockSize;
+            if (this.positionReportCounter >= this.positionReportInterval) {
+                this.positionReportCounter = 0;
+                reportPositions = true;
+            }
+        }
+        let reportMeters = false;
+        if (this.meterReportInterval > 0) {
+            this.meterReportCounter += blockSize;
+            if (this.meterReportCounter >= this.meterReportInterval) {
+                this.meterReportCounter = 0;
+                reportMeters = true;
+            }
+        }
+
+        // 이번 블록에 도래한 예약 이벤트 실행 → 트랙별 재생 구간 [start, end) 계산
+        const blockRanges = this.blockRanges;
+        const pendingStops = this.pendingStops;
+        blockRanges.clear();
+        pendingStops.clear();
+        this.retriggeredKeys.clear();
+        const finishedVoices = this.finishedVoices;
+        finishedVoices.length = 0;
+        for (const [trackKey, queue] of this.scheduledEvents.entries()) {
+            const blockEnd = this.currentFrame + blockSize;
+            let start = 0;
+            let end = blockSize;
+            while (queue.length > 0 && queue[0].frame < blockEnd) {
+                const event = queue.shift()!;
+                const offset = Math.max(0, event.frame - this.currentFrame);
+                if (event.type === 'play' && event.data) {
+                    // 재생 중인 트랙은 다시 시작하는 프레임 전까지 이전 재생을 이어서 렌더링합니다.
+                    const previous = this.tracks.get(trackKey);
+                    if (previous?.isPlaying && offset > start) {
+                        this.renderRetriggerTail(trackKey, previous, start, Math.min(end, offset));
+                    }
+                    this.startTrack(trackKey, event.data, offset);
+                    start = offset;
+                    end = blockSize;
+                    pendingStops.delete(trackKey);
+                } else if (event.type === 'stop') {
+                    // 페이드 아웃은 정지 시점부터 시작하고, 끝나면 트랙이 정지됩니다.
+                    if (!this.startFadeOut(trackKey, event.stopData ?? {}, offset - start)) {
+                        end = Math.max(start, offset);
+                        pendingStops.add(trackKey);
+                    }
+                }
+            }
+            blockRanges.set(trackKey, [start, end]);
+            if (queue.length === 0) {
+                this.scheduledEvents.delete(trackKey);
+            }
+        }
+
+        // 각 트랙(보이스)의 데이터를 믹스
+        const analysisKeys = this.analysisKeys;
+        analysisKeys.clear();
+        for (const [trackKey, track] of this.tracks.entries()) {
+            if (!track.isPlaying) continue;
+            const [rangeStart, rangeEnd] = blockRanges.get(trackKey) || [0, blockSize];
+
+            // 매번 새로운 버퍼를 할당하는 대신, 블록 크기만큼의 임시 버퍼를 재사용합니다.
+            const trackBuffers = this.trackBuffers;
+            for (const buffer of trackBuffers) {
+                buffer.fill(0);
+            }
+
+            this.renderTrackSource(trackKey, track, trackBuffers, rangeStart, rangeEnd);
+            const assetKey = this.voiceKeys.get(trackKey) ?? trackKey;
+
+            // 예약된 정지 시점에 도달했으면 정지합니다.
+            if (pendingStops.has(trackKey) && track.isPlaying) {
+                track.isPlaying = false;
+                track.readIndex = 0;
+                this.timeStretchers.get(trackKey)?.reset();
+                this.fades.delete(trackKey);
+                if (this.isInstanceVoice(trackKey)) finishedVoices.push(trackKey);
+            }
+
+            // 블록 끝 시점 기준 위치를 보고합니다. (재생이 끝난 트랙도 마지막 위치 보고)
+            if (reportPositions || !track.isPlaying) {
+                this.postPosition(trackKey, track, blockSize);
+            }
+
+            // 자동화 중인 파라미터가 있으면 샘플마다 값을 갱신하며 이펙트 체인을 적용합니다.
+            const lanes = this.automationLanes.get(trackKey);
+            if (lanes && lanes.size > 0) {
+                this.applyAutomatedTrackChain(trackKey, lanes, trackBuffers);
+                if (lanes.size === 0) {
+                    this.automationLanes.delete(trackKey);
+                }
+            } else {
+                this.applyTrackChain(trackKey, trackBuffers);
+            }
+
+            // 블록 중간에서 다시 재생했으면 그 전까지 렌더링한 이전 재생을 더합니다.
+            const tail = this.retriggeredKeys.has(trackKey) ? this.retriggerBuffers.get(trackKey) : undefined;
+            if (tail) {
+                for (let c = 0; c < channelCount; c++) {
+                    for (let i = 0; i < blockSize; i++) trackBuffers[c][i] += tail[c][i];
+                }
+            }
+
+            // 위치 보고 주기에 맞춰 컴프레서 게인 리덕션을 보고합니다.
+            if (reportPositions) {
+                this.postGainReduction(trackKey);
+            }
+
+            // 'quietest' 스틸링을 위해 보이스의 블록 피크 레벨을 기록합니다.
+            if (this.polyphony.get(assetKey)?.steal === 'quietest') {
+                let level = 0;
+                for (const buffer of trackBuffers) {
+                    for (let i = 0; i < blockSize; i++) level = Math.max(level, Math.abs(buffer[i]));
+                }
+                this.voiceLevels.set(trackKey, level);
+            }
+
+            // 키 단위 분석을 위해 보이스를 합산합니다. (스펙트럼 대역 또는 미터 보고 주기가 설정된 경우)
+            if (this.visualizers.has(assetKey) || this.meterReportInterval > 0) {
+                let mix = this.analysisBuffers.get(assetKey);
+                if (!mix) {
+                    mix = this.createChannelBuffers(blockSize);
+                    this.analysisBuffers.set(assetKey, mix);
+                }
+                const first = !analysisKeys.has(assetKey);
+                analysisKeys.add(assetKey);
+                for (let c = 0; c < channelCount; c++) {
+                    if (first) mix[c].set(trackBuffers[c]);
+                    else for (let i = 0; i < blockSize; i++) mix[c][i] += trackBuffers[c][i];
+                }
+            }
+
+            // 처리된 트랙 버퍼를 메인 출력에 믹스합니다.
+            for (let c = 0; c < channelCount; c++) {
+                const out = output[c];
+                const buffer = trackBuffers[c];
+                for (let i = 0; i < blockSize; i++) {
+                    out[i] += buffer[i];
+                }
+            }
+        }
+
+        for (const voiceId of finishedVoices) {
+            this.clearTrack(voiceId);
+        }
+
+        // 키별 스펙트럼 분석과 레벨 측정 (해당 키의 모든 보이스 합)
+        for (const key of analysisKeys) {
+            const mix = this.analysisBuffers.get(key)!;
+            this.visualizers.get(key)?.write(mix, (levels) => this.postVisualizerData(key, levels));
+            if (this.meterReportInterval > 0) {
+                this.measure(key, mix, reportMeters);
+            }
+        }
+
+        // 레거시 노멀라이즈 처리 (활성화 시)
+        if (this.normalizeEnabled) {
+            let maxVal = 0;
+            for (const channel of output) {
+                for (let i = 0; i < blockSize; i++) {
+                    const abs = Math.abs(channel[i]);
+                    if (abs > maxVal) maxVal = abs;
+                }
+            }
+            if (maxVal > 0) {
+                const invMax = 1 / maxVal;
+                for (const channel of output) {
+                    for (let i = 0; i < blockSize; i++) {
+                        channel[i] *= invMax;
+                    }
+                }
+            }
+        }
+
+        // 마스터 볼륨 적용
+        for (const channel of output) {
+            for (let i = 0; i < blockSize; i++) {
+                channel[i] *= this.masterVolume;
+            }
+        }
+
+        // 마스터 로우패스 필터 적용 (설정된 경우)
+        if (this.lowPassCoefficients) {
+            this.applyLowPassInPlace(output, this.lowPassCoefficients);
+        }
+
+        // 마스터 리미터 적용: 최종 출력이 ceiling을 넘지 않도록 보장
+        if (this.limiterEnabled) {
+            this.limiter.process(output);
+            if (reportPositions) {
+                this.postEvent({
+                    type: 'gainReduction',
+                    key: '',
+                    data: { gainReductionDb: this.limiter.takeGainReductionDb() },
+                });
+            }
+        }
+
+        // 출력 레이턴시 적용 (latencySamples > 0 인 경우)
+        if (this.latencySamples > 0) {
+            for (let c = 0; c < channelCount; c++) {
+                const channel = output[c];
+                const delayBuffer = this.delayBuffers[c];
+                for (let i = 0; i < blockSize; i++) {
+                    const writeIndex = (this.delayBufferIndex + i) % this.maxLatencySamples;
+                    const readIndex = (writeIndex + this.maxLatencySamples - this.latencySamples) % this.maxLatencySamples;
+                    delayBuffer[writeIndex] = channel[i];
+                    channel[i] = delayBuffer[readIndex];
+                }
+            }
+            this.delayBufferIndex = (this.delayBufferIndex + blockSize) % this.maxLatencySamples;
+        }
+
+        // 마스터 출력 레벨 측정
+        if (this.meterReportInterval > 0) {
+            this.measure('', output, reportMeters);
+        }
+
+        // 마스터 출력 스펙트럼 분석 (버퍼가 찰 때마다 대역별 레벨 전송)
+        this.visualizers.get('')!.write(output, (levels) => this.postVisualizerData('', levels));
+
+        this.currentFrame = frame + blockSize;
+    }
+
+    /**
+     * 트랙 데이터를 [rangeStart, rangeEnd) 구간에 보간해 채웁니다. (페이드, 루프, 타임 스트레치 포함)
+     * 끝나거나 페이드 아웃으로 정지한 추가 보이스는 finishedVoices에 추가합니다.
+     */
+    private renderTrackSource(
+        trackKey: string,
+        track: ExtendedTrack,
+        buffers: Float32Array[],
+        rangeStart: number,
+        rangeEnd: number
+    ): void {
+        const length = track.data[0].length;
+        const assetKey = this.voiceKeys.get(trackKey) ?? trackKey;
+        const channelCount = buffers.length;
+        const quality =
+            this.trackInterpolation.get(trackKey) ?? this.trackInterpolation.get(assetKey) ?? this.interpolationQuality;
+        // 소스 샘플레이트가 엔진과 다르면 진행량을 보정해 원래 속도로 재생합니다.
+        const step = track.playbackRate * (track.sampleRate / this.sampleRate);
+        const stretcher = this.getTimeStretcher(trackKey, track);
+        const grainStep = step * semitonesToRatio(track.pitch + track.cents / 100);
+        let fade = this.fades.get(trackKey);
+        // 루프 크로스페이드 구간 시작 위치 (이 위치부터 loopEnd까지를 loopStart 이후 부분과 겹쳐 재생)
+        const crossfade = Math.min(track.loopCrossfade, Math.floor((track.loopEnd - track.loopStart) / 2));
+        const seamStart = crossfade > 0 ? track.loopEnd - crossfade : Infinity;
+
+        // 트랙 데이터를 설정된 품질로 보간해 임시 버퍼에 채웁니다.
+        // 템포/피치가 바뀐 트랙은 타임 스트레처로 채우고, 재생 위치는 step × tempo로 진행합니다.
+        for (let i = rangeStart; i < rangeEnd; i++) {
+            const looping = track.loop && track.loopsRemaining > 0;
+            if (looping && track.readIndex >= track.loopEnd) {
+                // 크로스페이드 구간에서 loopStart 이후 부분을 이미 읽었으므로 그 다음 위치로 이어갑니다.
+                const next = track.loopStart + track.readIndex - Math.min(seamStart, track.loopEnd);
+                track.readIndex = next < track.loopEnd ? next : track.loopStart;
+                track.loopsRemaining--;
+                this.postLifecycle('looped', trackKey, i);
+            } else if (!looping && track.readIndex >= length - 1) {
+                track.isPlaying = false;
+                this.postLifecycle('ended', trackKey, i);
+                if (this.isInstanceVoice(trackKey)) this.finishedVoices.push(trackKey);
+                break;
+            }
+
+            let gain = 1;
+            if (fade) {
+                if (fade.elapsed >= fade.length) {
+                    this.fades.delete(trackKey);
+                    if (fade.stopAtEnd) {
+                        track.isPlaying = false;
+                        track.readIndex = 0;
+                        this.timeStretchers.get(trackKey)?.reset();
+                        if (this.isInstanceVoice(trackKey)) this.finishedVoices.push(trackKey);
+                        break;
+                    }
+                    gain = fade.to;
+                    fade = undefined;
+                } else {
+                    gain = this.getFadeGain(fade);
+                    fade.elapsed++;
+                }
+            }
+
+            if (stretcher) {
+                stretcher.process(track, grainStep, quality, buffers, i);
+                if (gain !== 1) {
+                    for (let c = 0; c < channelCount; c++) buffers[c][i] *= gain;
+                }
+                track.readIndex += step * track.tempo;
+                continue;
+            }
+            const position = track.readIndex;
+            if (looping && position >= seamStart && position < track.loopEnd) {
+                // 루프 끝부분은 페이드 아웃, 시작 부분은 페이드 인 (equal power)
+                const t = ((position - seamStart) / crossfade) * Math.PI * 0.5;
+                const head = track.loopStart + position - seamStart;
+                this.mixFrame(track, position, quality, step, gain * Math.cos(t), buffers, i);
+                this.mixFrame(track, head, quality, step, gain * Math.sin(t), buffers, i);
+            } else {
+                this.mixFrame(track, position, quality, step, gain, buffers, i);
+            }
+            track.readIndex += step;
+        }
+    }
+
+    /**
+     * 블록 중간에서 다시 재생하는 트랙의 이전 재생을 [start, end) 구간까지 이펙트 체인과 함께 렌더링해 둡니다.
+     * 렌더링 결과는 믹스 단계에서 새 재생의 출력에 더해집니다.
+     */
+    private renderRetriggerTail(trackKey: string, track: ExtendedTrack, start: number, end: number): void {
+        const scratch = this.trackBuffers;
+        for (const buffer of scratch) {
+            buffer.fill(0);
+        }
+        this.renderTrackSource(trackKey, track, scratch, start, end);
+        // 이전 재생이 여기서 끝나도 같은 보이스로 다시 시작하므로 해제하지 않습니다.
+        const finished = this.finishedVoices.indexOf(trackKey);
+        if (finished !== -1) this.finishedVoices.splice(finished, 1);
+        const channels = scratch.map((buffer) => buffer.subarray(0, end));
+        const lanes = this.automationLanes.get(trackKey);
+        if (lanes && lanes.size > 0) {
+            this.applyAutomatedTrackChain(trackKey, lanes, channels);
+        } else {
+            this.applyTrackChain(trackKey, channels);
+        }
+
+        // 한 블록에서 여러 번 다시 재생하면 이전 재생 출력을 누적합니다.
+        let tail = this.retriggerBuffers.get(trackKey);
+        if (!tail || tail[0].length !== scratch[0].length) {
+            tail = this.createChannelBuffers(scratch[0].length);
+            this.retriggerBuffers.set(trackKey, tail);
+        } else if (!this.retriggeredKeys.has(trackKey)) {
+            for (const buffer of tail) {
+                buffer.fill(0);
+            }
+        }
+        this.retriggeredKeys.add(trackKey);
+        for (let c = 0; c < tail.length; c++) {
+            for (let i = 0; i < end; i++) {
+                tail[c][i] += channels[c][i];
+            }
+        }
+    }
+
+    // ── In-Place Processing Functions ──
+    // 모든 함수는 채널별 버퍼 배열을 받아 채널마다 동일한 처리를 적용합니다.
+
+    /**
+     * 자동화 중인 트랙의 이펙트 체인을 적용합니다.
+     * 볼륨은 샘플마다 계산한 게인으로 곱하고, 그 외 파라미터는 AUTOMATION_CONTROL_SIZE 프레임마다 갱신합니다.
+     */
+    private applyAutomatedTrackChain(trackKey: string, lanes: Map<string, AutomationSegment[]>, channels: Float32Array[]): void {
+        const length = channels[0].length;
+        const volumeLane = lanes.get('volume');
+        let gains: Float32Array | undefined;
+        if (volumeLane) {
+            if (this.automationGains.length !== length) {
+                this.automationGains = new Float32Array(length);
+            }
+            gains = this.automationGains;
+            for (let i = 0; i < length; i++) {
+                const value = this.evaluateAutomation(volumeLane, this.currentFrame + i);
+                if (value !== undefined) this.volumeSettings.set(trackKey, value);
+                gains[i] = this.volumeSettings.get(trackKey) ?? this.initialSettings.volume;
+            }
+            if (volumeLane.length === 0) lanes.delete('volume');
+        }
+
+        if (lanes.size === (lanes.has('volume') ? 1 : 0)) {
+            this.applyTrackChain(trackKey, channels, gains);
+            return;
+        }
+        for (let offset = 0; offset < length; offset += this.AUTOMATION_CONTROL_SIZE) {
+            const end = Math.min(length, offset + this.AUTOMATION_CONTROL_SIZE);
+            this.updateAutomation(trackKey, lanes, this.currentFrame + offset);
+            this.applyTrackChain(
+                trackKey,
+                channels.map((buffer) => buffer.subarray(offset, end)),
+                gains?.subarray(offset, end)
+            );
+        }
+    }
+
+    /**
+     * 트랙의 이펙트 체인 전체를 적용합니다.
+     * (EQ → 모듈레이션 → 이펙트 → 드라이브 → 다이나믹스 → 공간 → 볼륨)
+     * @param volumeGains - 샘플별 볼륨 게인 (지정하면 트랙 볼륨 대신 사용)
+     */
+    private applyTrackChain(trackKey: string, channels: Float32Array[], volumeGains?: Float32Array): Float32Array[] {
+        // 각 이펙트 및 처리 기능을 in-place 방식으로 적용해 불필요한 메모리 복사를 줄입니다.
+        const eqBands = this.eqSettings.get(trackKey) || this.initialSettings.eq;
+        const modulation = this.modulationSettings.get(trackKey) || this.initialSettings.modulation;
+        const effects = this.effectsSettings.get(trackKey) || this.initialSettings.effects;
+        const drive = this.driveSettings.get(trackKey) || this.initialSettings.drive;
+        const dynamics = this.dynamicsSettings.get(trackKey) || this.initialSettings.dynamics;
+        const spatial = this.spatialSettings.get(trackKey) || this.initialSettings.spatial;
+        const volume = this.volumeSettings.get(trackKey) ?? this.initialSettings.volume;
+
+        this.applyEQInPlace(channels, eqBands, trackKey);
+        if (modulation.depth !== 0 || modulation.rate !== 0) {
+            this.applyModulationInPlace(channels, modulation, trackKey);
+        }
+        if (effects.delay || effects.reverb || effects.echo) {
+            this.applyEffectsInPlace(channels, effects, trackKey);
+        }
+        if (drive.distortion || drive.overdrive || drive.fuzz) {
+            this.applyDriveInPlace(channels, drive);
+        }
+        if (dynamics.threshold !== 0 || dynamics.ratio !== 1 || dynamics.makeupDb) {
+            this.applyDynamicsInPlace(channels, dynamics, trackKey);
+        }
+        if ((spatial.pan ?? 0) !== 0 || (spatial.width ?? 1) !== 1) {
+            this.applySpatialInPlace(channels, spatial);
+        }
+        if (volumeGains) {
+            for (const buffer of channels) {
+                for (let i = 0; i < buffer.length; i++) {
+                    buffer[i] *= volumeGains[i];
+                }
+            }
+        } else if (volume !== 1) {
+            for (const buffer of channels) {
+                for (let i = 0; i < buffer.length; i++) {
+                    buffer[i] *= volume;
+                }
+            }
+        }
+        return channels;
+    }
+
+    /**
+     * 파라메트릭 EQ 적용 (밴드별 biquad 직렬 연결, Transposed Direct Form II)
+     * - 필터 상태는 트랙/채널/밴드별로 유지되어 블록 경계에서 끊기지 않습니다.
+     */
+    private applyEQInPlace(channels: Float32Array[], eqBands: EQBand[], trackKey: string): Float32Array[] {
+        const states = this.getEQStates(trackKey, channels.length, eqBands.length);
+        for (let b = 0; b < eqBands.length; b++) {
+            const band = eqBands[b];
+            if (isIdentityBand(band)) {
+                // 통과 밴드는 상태를 비워 다시 켜질 때 이전 잔향이 섞이지 않게 합니다.
+                for (const state of states) {
+                    state[b * 2] = 0;
+                    state[b * 2 + 1] = 0;
+                }
+                continue;
+            }
+            const { b0, b1, b2, a1, a2 } = this.getEQCoefficients(trackKey, b, band);
+            for (let c = 0; c < channels.length; c++) {
+                const buffer = channels[c];
+                const state = states[c];
+                let z1 = state[b * 2];
+                let z2 = state[b * 2 + 1];
+                for (let i = 0; i < buffer.length; i++) {
+                    const x = buffer[i];
+                    const y = b0 * x + z1;
+                    z1 = b1 * x - a1 * y + z2;
+                    z2 = b2 * x - a2 * y;
+                    buffer[i] = y;
+                }
+                state[b * 2] = z1;
+                state[b * 2 + 1] = z2;
+            }
+        }
+        return channels;
+    }
+
+    /**
+     * 밴드의 biquad 계수를 가져옵니다. (밴드 값이 바뀌었을 때만 다시 계산)
+     */
+    private getEQCoefficients(trackKey: string, index: number, band: EQBand): BiquadCoefficients {
+        let cache = this.eqCoefficients.get(trackKey);
+        if (!cache) {
+            cache = [];
+            this.eqCoefficients.set(trackKey, cache);
+        }
+        const entry = cache[index];
+        if (
+            entry &&
+            entry.frequency === band.frequency &&
+            entry.gain === band.gain &&
+            entry.type === band.type &&
+            entry.q === band.q
+        ) {
+            return entry.coefficients;
+        }
+        const coefficients = computeBiquadCoefficients(band, this.sampleRate);
+        cache[index] = { frequency: band.frequency, gain: band.gain, type: band.type, q: band.q, coefficients };
+        return coefficients;
+    }
+
+    /**
+     * 트랙의 EQ 필터 상태를 가져옵니다. (채널/밴드 수가 바뀌면 새로 할당)
+     */
+    private getEQStates(trackKey: string, channelCount: number, bandCount: number): Float64Array[] {
+        let states = this.eqStates.get(trackKey);
+        if (!states || states.length !== channelCount || states[0].length !== bandCount * 2) {
+            states = [];
+            for (let c = 0; c < channelCount; c++) {
+                states.push(new Float64Array(bandCount * 2));
+            }
+            this.eqStates.set(trackKey, states);
+        }
+        return states;
+    }
+
+    /**
+     * 향상된 모듈레이션 효과 적용
+     * - LFO 위상을 지속적으로 추적하여 블록 간 연속성 보장
+     * - Chorus/Flanger는 채널별 전용 딜레이 버퍼 사용
+     */
+    private applyModulationInPlace(channels: Float32Array[], modulation: ModulationSettings, trackKey: string): Float32Array[] {
+        const fs = this.sampleRate;
+        
+        // 현재 LFO 위상 가져오기 (없으면 0) - 모든 채널이 같은 위상에서 시작
+        const startPhase = this.modulationPhases.get(trackKey) || 0;
+        const phaseIncrement = (2 * Math.PI * modulation.rate) / fs;
+        
+        // Chorus/Flanger용 버퍼 가져오기
+        const chorusBuffers = this.chorusBuffers.get(trackKey);
+        const startWriteIndex = this.chorusWriteIndices.get(trackKey) || 0;
+
+        let phase = startPhase;
+        let chorusWriteIndex = startWriteIndex;
+        
+        for (let c = 0; c < channels.length; c++) {
+            const buffer = channels[c];
+            const chorusBuffer = chorusBuffers ? chorusBuffers[c] : undefined;
+            phase = startPhase;
+            chorusWriteIndex = startWriteIndex;
+
+            for (let i = 0; i < buffer.length; i++) {
+                const lfo = Math.sin(phase);
+                let modFactor = 1;
+                let processedSample = buffer[i];
+                
+                switch (modulation.type) {
+                    case 'chorus':
+                        // Chorus: 딜레이된 신호와 원본을 혼합
+                        if (chorusBuffer) {
+                            // 기본 딜레이 15ms + 변조 ±10ms
+                            const baseDelaySamples = Math.round(0.015 * fs);
+                            const modulationDelaySamples = Math.round(0.010 * fs * lfo * modulation.depth);
+                            const delaySamples = Math.max(1, baseDelaySamples + modulationDelaySamples);
+                            
+                            const readIndex = (chorusWriteIndex - delaySamples + this.MAX_CHORUS_SAMPLES) % this.MAX_CHORUS_SAMPLES;
+                            const delayedSample = chorusBuffer[Math.floor(readIndex)];
+                            
+                            chorusBuffer[chorusWriteIndex] = buffer[i];
+                            chorusWriteIndex = (chorusWriteIndex + 1) % this.MAX_CHORUS_SAMPLES;
+                            
+                            // 원본과 딜레이된 신호를 혼합 (0.5:0.5)
+                            processedSample = buffer[i] * 0.7 + delayedSample * 0.3 * modulation.depth;
+                        }
+                        break;
+                        
+                    case 'flanger':
+                        // Flanger: 매우 짧은 딜레이 (0.1~10ms)와 피드백
+                        if (chorusBuffer) {
+                            const flangerDelaySamples = Math.round((0.0001 + 0.01 * (0.5 + 0.5 * lfo) * modulation.depth) * fs);
+                            
+                            const readIndex = (chorusWriteIndex - flangerDelaySamples + this.MAX_CHORUS_SAMPLES) % this.MAX_CHORUS_SAMPLES;
+                            const delayedSample = chorusBuffer[Math.floor(readIndex)];
+                            
+                            // 피드백 포함
+                            processedSample = buffer[i] + delayedSample * 0.7 * modulation.depth;
+                            chorusBuffer[chorusWriteIndex] = processedSample;
+                            chorusWriteIndex = (chorusWriteIndex + 1) % this.MAX_CHORUS_SAMPLES;
+                        }
+                        break;
+                        
+                    case 'vibrato':
+                        // Vibrato: 피치 변조 (딜레이 시간 변조로 시뮬레이션)
+                        if (chorusBuffer) {
+                            const vibratoDelaySamples = Math.round((0.002 + 0.003 * (0.5 + 0.5 * lfo) * modulation.depth) * fs);
+                            
+                            const readIndex = (chorusWriteIndex - vibratoDelaySamples + this.MAX_CHORUS_SAMPLES) % this.MAX_CHORUS_SAMPLES;
+                            const frac = readIndex - Math.floor(readIndex);
+                            const idx0 = Math.floor(readIndex);
+                            const idx1 = (idx0 + 1) % this.MAX_CHORUS_SAMPLES;
+                            
+                            // 선형 보간
+                            processedSample = chorusBuffer[idx0] * (1 - frac) + chorusBuffer[idx1] * frac;
+                            chorusBuffer[chorusWriteIndex] = buffer[i];
+                            chorusWriteIndex = (chorusWriteIndex + 1) % this.MAX_CHORUS_SAMPLES;
+                        }
+                        break;
+                        
+                    case 'ring':
+                        // Ring Modulation: 캐리어 신호와 곱셈
+                        processedSample = buffer[i] * lfo * modulation.depth + buffer[i] * (1 - modulation.depth);
+                        break;
+                        
+                    case 'tremolo':
+                        // Tremolo: 진폭 변조 (부드러운 0.5~1.0 범위)
+                        modFactor = 1 - modulation.depth * 0.5 * (1 - lfo);
+                        processedSample = buffer[i] * modFactor;
+                        break;
+                        
+                    case 'square':
+                        // Square Wave 변조
+                        modFactor = lfo >= 0 ? 1 + modulation.depth * 0.5 : 1 - modulation.depth * 0.5;
+                        processedSample = buffer[i] * modFactor;
+                        break;
+                        
+                    case 'triangle':
+                        // Triangle Wave 변조
+                        const triangleLfo = (2 / Math.PI) * Math.asin(lfo);
+                        modFactor = 1 + triangleLfo * modulation.depth * 0.5;
+                        processedSample = buffer[i] * modFactor;
+                        break;
+                        
+                    case 'sawtooth':
+                        // Sawtooth Wave 변조
+                        const normalizedPhase = (phase % (2 * Math.PI)) / (2 * Math.PI);
+                        const sawtoothLfo = 2 * (normalizedPhase - 0.5);
+                        modFactor = 1 + sawtoothLfo * modulation.depth * 0.5;
+                        processedSample = buffer[i] * modFactor;
+                        break;
+                        
+                    default:
+                        processedSample = buffer[i];
+                }
+                
+                buffer[i] = processedSample;
+                phase += phaseIncrement;
+                
+                // 위상 오버플로우 방지
+                if (phase >= 2 * Math.PI) {
+                    phase -= 2 * Math.PI;
+                }
+            }
+        }
+        
+        // 상태 저장
+        this.modulationPhases.set(trackKey, phase);
+        if (chorusBuffers) {
+            this.chorusWriteIndices.set(trackKey, chorusWriteIndex);
+        }
+        
+        return channels;
+    }
+
+    /**
+     * 향상된 이펙트 적용 (Delay, Echo, Reverb)
+     * - Delay: 시간 기반 딜레이 (ms 단위)
+     * - Echo: 감쇄되는 반복 딜레이
+     * - Reverb: Schroeder Reverb 알고리즘
+     */
+    private applyEffectsInPlace(channels: Float32Array[], effects: EffectsSettings, trackKey: string): Float32Array[] {
+        const fs = this.sampleRate;
+        
+        // Delay 효과 적용
+        if (effects.delay && effects.delay > 0) {
+            const delayBuffers = this.getDelayLines(this.delayEffectBuffers, trackKey);
+            if (delayBuffers) {
+                const startIndex = this.delayEffectWriteIndices.get(trackKey) || 0;
+                let writeIndex = startIndex;
+                // delay 값을 ms로 해석 (0-1000ms 범위)
+                const delaySamples = Math.min(
+                    Math.round((effects.delay / 1000) * fs),
+                    this.MAX_DELAY_SAMPLES - 1
+                );
+                
+                for (let c = 0; c < channels.length; c++) {
+                    const buffer = channels[c];
+                    const delayBuffer = delayBuffers[c];
+                    writeIndex = startIndex;
+                    for (let i = 0; i < buffer.length; i++) {
+                        const readIndex = (writeIndex - delaySamples + this.MAX_DELAY_SAMPLES) % this.MAX_DELAY_SAMPLES;
+                        const delayedSample = delayBuffer[readIndex];
+                        
+                        // 피드백 0.3 적용
+                        delayBuffer[writeIndex] = buffer[i] + delayedSample * 0.3;
+                        buffer[i] = buffer[i] * 0.7 + delayedSample * 0.5;
+                        
+                        writeIndex = (writeIndex + 1) % this.MAX_DELAY_SAMPLES;
+                    }
+                }
+                this.delayEffectWriteIndices.set(trackKey, writeIndex);
+            }
+        }
+        
+        // Echo 효과 적용
+        if (effects.echo && effects.echo > 0) {
+            const echoBuffers = this.getDelayLines(this.echoEffectBuffers, trackKey);
+            if (echoBuffers) {
+                const startIndex = this.echoEffectWriteIndices.get(trackKey) || 0;
+                let writeIndex = startIndex;
+                // echo 값을 ms로 해석 (0-1000ms 범위)
+                const echoSamples = Math.min(
+                    Math.round((effects.echo / 1000) * fs),
+                    this.MAX_DELAY_SAMPLES - 1
+                );
+                
+                // 다중 에코 탭: 1x, 2x, 3x 딜레이에서 감쇄되는 에코
+                const echoTaps = [
+                    { delay: echoSamples, gain: 0.5 },
+                    { delay: echoSamples * 2, gain: 0.25 },
+                    { delay: echoSamples * 3, gain: 0.125 },
+                ];
+                
+                for (let c = 0; c < channels.length; c++) {
+                    const buffer = channels[c];
+                    const echoBuffer = echoBuffers[c];
+                    writeIndex = startIndex;
+                    for (let i = 0; i < buffer.length; i++) {
+                        let echoSum = 0;
+                        for (const tap of echoTaps) {
+                            if (tap.delay < this.MAX_DELAY_SAMPLES) {
+                                const readIndex = (writeIndex - tap.delay + this.MAX_DELAY_SAMPLES) % this.MAX_DELAY_SAMPLES;
+                                echoSum += echoBuffer[readIndex] * tap.gain;
+                            }
+                        }
+                        
+                        echoBuffer[writeIndex] = buffer[i];
+                        buffer[i] += echoSum;
+                        
+                        writeIndex = (writeIndex + 1) % this.MAX_DELAY_SAMPLES;
+                    }
+                }
+                this.echoEffectWriteIndices.set(trackKey, writeIndex);
+            }
+        }
+        
+        // Reverb 효과 적용 (Schroeder Reverb)
+        if (effects.reverb && effects.reverb > 0) {
+            const combBufferSets = this.reverbCombBuffers.get(trackKey);
+            const startCombIndices = this.reverbCombIndices.get(trackKey);
+            const allpassBufferSets = this.reverbAllpassBuffers.get(trackKey);
+            const startAllpassIndices = this.reverbAllpassIndices.get(trackKey);
+            
+            if (combBufferSets && startCombIndices && allpassBufferSets && startAllpassIndices) {
+                const reverbMix = Math.min(1, effects.reverb);
+                
+                // 외부 파라미터 또는 프리셋에서 decay/diffusion 가져오기
+                const { combFeedback, allpassFeedback } = this.getReverbParams(effects);
+
+                let combIndices = startCombIndices;
+                let allpassIndices = startAllpassIndices;
+                
+                for (let ch = 0; ch < channels.length; ch++) {
+                    const buffer = channels[ch];
+                    const combBuffers = combBufferSets[ch];
+                    const allpassBuffers = allpassBufferSets[ch];
+                    // 채널마다 같은 인덱스에서 시작하도록 복사본 사용
+                    combIndices = [...startCombIndices];
+                    allpassIndices = [...startAllpassIndices];
+
+                    for (let i = 0; i < buffer.length; i++) {
+                        const input = buffer[i];
+                        let combOutput = 0;
+                        
+                        // 4개의 병렬 콤 필터
+                        for (let c = 0; c < 4; c++) {
+                            const combBuffer = combBuffers[c];
+                            const idx = combIndices[c];
+                            const delay = this.COMB_DELAYS[c] % combBuffer.length;
+                            
+                            const readIdx = (idx - delay + combBuffer.length) % combBuffer.length;
+                            const combSample = combBuffer[readIdx];
+                            
+                            combBuffer[idx] = input + combSample * combFeedback;
+                            combOutput += combSample;
+                            
+                            combIndices[c] = (idx + 1) % combBuffer.length;
+                        }
+                        combOutput *= 0.25; // 평균화
+                        
+                        // 2개의 직렬 올패스 필터
+                        let allpassOutput = combOutput;
+                        for (let a = 0; a < 2; a++) {
+                            const allpassBuffer = allpassBuffers[a];
+                            const idx = allpassIndices[a];
+                            const delay = this.ALLPASS_DELAYS[a] % allpassBuffer.length;
+                            
+                            const readIdx = (idx - delay + allpassBuffer.length) % allpassBuffer.length;
+                            const bufferSample = allpassBuffer[readIdx];
+                            
+                            const feedforward = -allpassFeedback * allpassOutput + bufferSample;
+                            allpassBuffer[idx] = allpassOutput + allpassFeedback * feedforward;
+                            allpassOutput = feedforward;
+                            
+                            allpassIndices[a] = (idx + 1) % allpassBuffer.length;
+                        }
+                        
+                        // Wet/Dry 믹스
+                        buffer[i] = input * (1 - reverbMix) + allpassOutput * reverbMix;
+                    }
+                }
+
+                this.reverbCombIndices.set(trackKey, combIndices);
+                this.reverbAllpassIndices.set(trackKey, allpassIndices);
+            }
+        }
+        
+        return channels;
+    }
+
+    private applyDriveInPlace(channels: Float32Array[], drive: DriveSettings): Float32Array[] {
+        for (const buffer of channels) {
+            for (let i = 0; i < buffer.length; i++) {
+                let sample = buffer[i];
+                
+                if (drive.distortion) {
+                    // 하드 클리핑 기반 디스토션
+                    const gain = 1 + drive.distortion * 10;
+                    sample = Math.tanh(gain * sample);
+                }
+                
+                if (drive.overdrive) {
+                    // 소프트 클리핑 기반 오버드라이브
+                    const gain = 1 + drive.overdrive * 5;
+                    const driveSignal = gain * sample;
+                    sample = Math.sign(driveSignal) * (1 - Math.exp(-Math.abs(driveSignal)));
+                }
+                
+                if (drive.fuzz) {
+                    // 비대칭 클리핑 기반 퍼즈
+                    const fuzzGain = 1 + drive.fuzz * 20;
+                    const fuzzSignal = fuzzGain * sample;
+                    if (fuzzSignal > 0) {
+                        sample = Math.min(1, fuzzSignal);
+                    } else {
+                        sample = Math.max(-0.7, fuzzSignal * 0.7);
+                    }
+                    // 추가 하모닉스
+                    sample = sample + 0.3 * Math.sin(3 * Math.PI * sample);
+                }
+                
+                buffer[i] = sample;
+            }
+        }
+        return channels;
+    }
+
+    /**
+     * 피드포워드 컴프레서 적용 (로그 도메인, 소프트 니)
+     * - 모든 채널의 최대 레벨로 검출하고 동일한 게인을 적용 (스테레오 링크)
+     * - 게인 리덕션(dB)을 어택/릴리즈 시간 상수로 스무딩하며, 상태는 트랙별로 유지
+     * - lookaheadMs > 0이면 오디오를 지연시키고 검출은 지연 전 신호로 수행
+     */
+    private applyDynamicsInPlace(channels: Float32Array[], dynamics: DynamicsSettings, trackKey: string): Float32Array[] {
+        const fs = this.sampleRate;
+        const threshold = dynamics.threshold;
+        const ratio = Math.max(1, dynamics.ratio);
+        const knee = Math.max(0, dynamics.kneeDb ?? 6);
+        const makeup = dynamics.makeupDb ?? 0;
+        const attackCoeff = Math.exp(-1 / (Math.max(0.1, dynamics.attackMs ?? 10) * 0.001 * fs));
+        const releaseCoeff = Math.exp(-1 / (Math.max(1, dynamics.releaseMs ?? 100) * 0.001 * fs));
+        const lookahead = Math.min(
+            Math.max(0, Math.round(((dynamics.lookaheadMs ?? 0) * fs) / 1000)),
+            this.MAX_LOOKAHEAD_SAMPLES - 1
+        );
+        const lookaheadBuffers = this.lookaheadBuffers.get(trackKey);
+        let lookaheadIndex = this.lookaheadWriteIndices.get(trackKey) || 0;
+
+        let envelope = this.dynamicsEnvelopes.get(trackKey) || 0;
+        let peakReduction = this.gainReductionPeaks.get(trackKey) || 0;
+        const length = channels[0].length;
+        
+        for (let i = 0; i < length; i++) {
+            let inputLevel = 0;
+            for (const buffer of channels) {
+                const level = Math.abs(buffer[i]);
+                if (level > inputLevel) inputLevel = level;
+            }
+
+            // 게인 컴퓨터 (소프트 니): 출력 레벨과 입력 레벨의 차이가 게인 리덕션
+            const levelDb = 20 * Math.log10(Math.max(inputLevel, 1e-9));
+            const overDb = levelDb - threshold;
+            let targetReduction = 0;
+            if (2 * overDb > knee) {
+                targetReduction = overDb * (1 - 1 / ratio);
+            } else if (knee > 0 && 2 * overDb > -knee) {
+                const x = overDb + knee / 2;
+                targetReduction = ((1 - 1 / ratio) * x * x) / (2 * knee);
+            }
+
+            // 어택/릴리즈 스무딩 (리덕션이 커질 때 어택, 줄어들 때 릴리즈)
+            const coeff = targetReduction > envelope ? attackCoeff : releaseCoeff;
+            envelope = coeff * envelope + (1 - coeff) * targetReduction;
+            if (envelope > peakReduction) peakReduction = envelope;
+
+            const gain = Math.pow(10, (makeup - envelope) / 20);
+            for (let c = 0; c < channels.length; c++) {
+                const buffer = channels[c];
+                if (lookahead > 0 && lookaheadBuffers) {
+                    const delayBuffer = lookaheadBuffers[c];
+                    const readIndex = (lookaheadIndex - lookahead + this.MAX_LOOKAHEAD_SAMPLES) % this.MAX_LOOKAHEAD_SAMPLES;
+                    delayBuffer[lookaheadIndex] = buffer[i];
+                    buffer[i] = delayBuffer[readIndex] * gain;
+                } else {
+                    buffer[i] *= gain;
+                }
+            }
+            if (lookahead > 0) {
+                lookaheadIndex = (lookaheadIndex + 1) % this.MAX_LOOKAHEAD_SAMPLES;
+            }
+        }
+        this.dynamicsEnvelopes.set(trackKey, envelope);
+        this.gainReductionPeaks.set(trackKey, peakReduction);
+        this.lookaheadWriteIndices.set(trackKey, lookaheadIndex);
+        return channels;
+    }
+
+    /**
+     * 패닝 및 스테레오 폭 적용 (앞의 두 채널 기준, 모노 출력에서는 무시)
+     * - width: Mid/Side 방식으로 Side 성분의 크기 조절
+     * - pan: 등전력(equal-power) 밸런스, 중앙에서 원래 레벨 유지
+     */
+    private applySpatialInPlace(channels: Float32Array[], spatial: SpatialSettings): Float32Array[] {
+        if (channels.length < 2) return channels;
+
+        const pan = Math.max(-1, Math.min(1, spatial.pan ?? 0));
+        const width = Math.max(0, Math.min(2, spatial.width ?? 1));
+        const angle = ((pan + 1) * Math.PI) / 4;
+        const gainL = Math.cos(angle) * Math.SQRT2;
+        const gainR = Math.sin(angle) * Math.SQRT2;
+
+        const left = channels[0];
+        const right = channels[1];
+        for (let i = 0; i < left.length; i++) {
+            const mid = (left[i] + right[i]) * 0.5;
+            const side = (left[i] - right[i]) * 0.5 * width;
+            left[i] = (mid + side) * gainL;
+            right[i] = (mid - side) * gainR;
+        }
+        return channels;
+    }
+
+    /**
+     * 마스터 로우패스 필터 적용 (Direct Form I, 채널별 상태 유지)
+     */
+    private applyLowPassInPlace(channels: Float32Array[], coeffs: BiquadCoefficients): Float32Array[] {
+        const { b0, b1, b2, a1, a2 } = coeffs;
+        for (let c = 0; c < channels.length; c++) {
+            const buffer = channels[c];
+            const state = this.lowPassStates[c];
+            let x1 = state[0], x2 = state[1], y1 = state[2], y2 = state[3];
+            for (let i = 0; i < buffer.length; i++) {
+                const x0 = buffer[i];
+                const y0 = b0 * x0 + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+                x2 = x1;
+                x1 = x0;
+                y2 = y1;
+                y1 = y0;
+                buffer[i] = y0;
+            }
+            state[0] = x1;
+            state[1] = x2;
+            state[2] = y1;
+            state[3] = y2;
+        }
+        return channels;
+    }
+
+    /**
+     * 로우패스 필터 계수 계산 (RBJ Audio EQ Cookbook)
+     * 컷오프가 나이퀴스트 이상이면 필터를 해제합니다.
+     */
+    private setLowPassFilter(settings: LowPassFilterSettings): void {
+        const nyquist = this.sampleRate / 2;
+        if (!Number.isFinite(settings.cutoff) || settings.cutoff >= nyquist) {
+            this.lowPassCoefficients = null;
+            return;
+        }
+
+        // 필터가 새로 켜지는 경우에만 상태를 초기화해 파라미터 변경 시 클릭을 방지합니다.
+        if (!this.lowPassCoefficients) {
+            for (const state of this.lowPassStates) {
+                state.fill(0);
+            }
+        }
+        this.lowPassCoefficients = computeBiquadCoefficients(
+            {
+                type: 'lowpass',
+                frequency: Math.max(10, settings.cutoff),
+                gain: 0,
+                q: Number.isFinite(settings.Q) ? settings.Q : Math.SQRT1_2,
+            },
+            this.sampleRate
+        );
+    }
+
+    /**
+     * 소스의 한 프레임을 설정된 품질로 보간해 출력 버퍼에 gain을 곱해 더합니다.
+     * - 모노 소스: 모든 출력 채널에 동일하게 (중앙 정위)
+     * - 모노 출력: 모든 소스 채널의 평균 (다운믹스)
+     * - 그 외: 채널 번호대로 1:1 매핑, 소스에 없는 채널은 무음
+     */
+    private mixFrame(
+        track: ExtendedTrack,
+        position: number,
+        quality: InterpolationQuality,
+        step: number,
+        gain: number,
+        outputs: Float32Array[],
+        index: number
+    ): void {
+        const sourceCount = track.data.length;
+        const channelCount = outputs.length;
+        // 반복이 남아 있으면 보간 커널이 루프 구간 안에서만 샘플을 읽습니다.
+        const loop = track.loop && track.loopsRemaining > 0 ? track : false;
+        if (channelCount === 1 && sourceCount > 1) {
+            let sum = 0;
+            for (let s = 0; s < sourceCount; s++) {
+                sum += readSample(track.data[s], position, quality, loop, step);
+            }
+            outputs[0][index] += (sum / sourceCount) * gain;
+        } else {
+            for (let c = 0; c < channelCount; c++) {
+                const source = sourceCount === 1 ? track.data[0] : track.data[c];
+                if (source) outputs[c][index] += readSample(source, position, quality, loop, step) * gain;
+            }
+        }
+    }
+
+    /**
+     * 페이드 진행도에 따른 현재 게인
+     */
+    private getFadeGain(fade: TrackFade): number {
+        const t = Math.min(1, Math.max(0, fade.elapsed) / fade.length);
+        switch (fade.curve) {
+            case 'equalPower':
+                return fade.to > fade.from
+                    ? fade.from + (fade.to - fade.from) * Math.sin(t * Math.PI * 0.5)
+                    : fade.to + (fade.from - fade.to) * Math.cos(t * Math.PI * 0.5);
+            case 'exponential': {
+                if (t >= 1) return fade.to;
+                const from = Math.max(fade.from, 0.001);
+                const to = Math.max(fade.to, 0.001);
+                return from * Math.pow(to / from, t);
+            }
+            default:
+                return fade.from + (fade.to - fade.from) * t;
+        }
+    }
+
+    /**
+     * 재생 중인 트랙의 페이드 아웃을 시작합니다. (끝나면 트랙 정지)
+     * @param delay - 페이드 시작까지 남은 샘플 수 (예약 정지 시 블록 내 오프셋)
+     * @returns 페이드 아웃을 시작했는지 여부 (페이드 시간이 없거나 재생 중이 아니면 false)
+     */
+    private startFadeOut(key: string, data: StopMessageData, delay: number = 0): boolean {
+        const track = this.tracks.get(key);
+        const fadeOutMs = Number(data.fadeOutMs);
+        if (!track || !track.isPlaying || !(fadeOutMs > 0)) return false;
+        // 페이드 인 도중이면 현재 게인에서부터 줄입니다.
+        const current = this.fades.get(key);
+        this.fades.set(key, {
+            from: current ? this.getFadeGain(current) : 1,
+            to: 0,
+            length: Math.max(1, Math.round((fadeOutMs / 1000) * this.sampleRate)),
+            elapsed: -delay,
+            curve: data.fadeCurve ?? 'linear',
+            stopAtEnd: true,
+        });
+        return true;
+    }
+
+    // ── 트랙 재생 제어 ──
+
+    /**
+     * 재생할 채널 데이터를 정합니다. (channels가 없으면 audioId 또는 key로 등록된 오디오 데이터)
+     * @returns 재생 데이터, 채널 데이터가 없으면 null
+     */
+    private resolvePlayData(key: string, data: PlayMessageData): ResolvedPlayData | null {
+        if (data.channels && data.channels.length > 0) {
+            return { ...data, channels: data.channels };
+        }
+        const audio = this.audioData.get(typeof data.audioId === 'string' ? data.audioId : key);
+        if (!audio) return null;
+        return {
+            ...data,
+            channels: audio.channels,
+            sampleRate: typeof data.sampleRate === 'number' ? data.sampleRate : audio.sampleRate,
+        };
+    }
+
+    /**
+     * 트랙을 처음부터 재생하고 트랙별 설정 및 이펙트 버퍼를 초기화합니다.
+     * @param frameOffset - 현재 블록 시작(currentFrame) 기준 시작 시점 오프셋 (샘플)
+     */
+    private startTrack(key: string, data: ResolvedPlayData, frameOffset: number = 0): void {
+        if (!this.acquireVoice(key, frameOffset)) return;
+        this.voiceStartFrames.set(key, this.currentFrame + frameOffset);
+        this.voiceLevels.delete(key);
+        this.tracks.set(key, {
+            data: data.channels,
+            readIndex: 0,
+            isPlaying: true,
+            loop: data.loop,
+            playbackRate: typeof data.playbackRate === 'number' ? data.playbackRate : 1,
+            tempo: 1,
+            pitch: 0,
+            cents: 0,
+            sampleRate: typeof data.sampleRate === 'number' && data.sampleRate > 0 ? data.sampleRate : this.sampleRate,
+            loopCrossfade: 0,
+            loopStart: 0,
+            loopEnd: data.channels[0].length,
+            loopsRemaining: Infinity,
+        });
+        const track = this.tracks.get(key)!;
+        this.applyTimeStretch(track, data);
+        this.timeStretchers.delete(key);
+
+        this.applyLoopRegion(track, data);
+
+        // 루프 경계 크로스페이드 (루프 구간 길이의 절반까지)
+        const loopCrossfadeMs = Number(data.loopCrossfadeMs);
+        if (loopCrossfadeMs > 0) {
+            track.loopCrossfade = Math.floor((loopCrossfadeMs / 1000) * track.sampleRate);
+        }
+        // 페이드 인 (시작 시점부터 0 → 1)
+        const fadeInMs = Number(data.fadeInMs);
+        if (fadeInMs > 0) {
+            this.fades.set(key, {
+                from: 0,
+                to: 1,
+                length: Math.max(1, Math.round((fadeInMs / 1000) * this.sampleRate)),
+                elapsed: 0,
+                curve: data.fadeCurve ?? 'linear',
+                stopAtEnd: false,
+            });
+        } else {
+            this.fades.delete(key);
+        }
+        // 신규 트랙에 대해 기본 설정 초기화
+        this.eqSettings.set(key, this.initialSettings.eq.map((band) => ({ ...band })));
+        this.modulationSettings.set(key, { ...this.initialSettings.modulation });
+        this.effectsSettings.set(key, { ...this.initialSettings.effects });
+        this.driveSettings.set(key, { ...this.initialSettings.drive });
+        this.dynamicsSettings.set(key, { ...this.initialSettings.dynamics });
+        this.volumeSettings.set(key, this.initialSettings.volume);
+        this.spatialSettings.set(key, { ...this.initialSettings.spatial });
+
+        this.automationLanes.delete(key);
+
+        // 추가 보이스는 키로 보낸 설정으로 시작합니다. (스무딩 없이 즉시 적용)
+        const keySettings = this.isInstanceVoice(key) ? this.keySettings.get(this.voiceKeys.get(key)!) : undefined;
+        if (keySettings) {
+            const smoothingSamples = this.smoothingSamples;
+            this.smoothingSamples = 0;
+            for (const [type, settings] of keySettings) {
+                this.dispatchMessage({ type, key, data: settings } as AudioProcessorPostMessage);
+            }
+            this.smoothingSamples = smoothingSamples;
+        }
+
+        // 이펙트 버퍼 초기화
+        this.initializeEffectBuffers(key);
+        this.postLifecycle('started', key, frameOffset);
+    }
+
+    /**
+     * 키의 동시 재생 수 제한을 확인하고, 최대치면 정책에 따라 다른 보이스를 빼앗거나 새 보이스를 거부합니다.
+     * 빼앗긴 보이스는 짧게 페이드 아웃한 뒤 정지하며, 페이드 아웃 중인 보이스는 세지 않습니다.
+     * @returns 보이스를 재생할 수 있는지 여부
+     */
+    private acquireVoice(voiceId: string, frameOffset: number): boolean {
+        const key = this.voiceKeys.get(voiceId) ?? voiceId;
+        const settings = this.polyphony.get(key);
+        if (!settings) return true;
+
+        const active: string[] = [];
+        for (const [id, voiceKey] of this.voiceKeys) {
+            if (voiceKey !== key || id === voiceId) continue;
+            if (this.tracks.get(id)?.isPlaying && !this.fades.get(id)?.stopAtEnd) active.push(id);
+        }
+        while (active.length >= settings.maxVoices) {
+            if (settings.steal === 'reject') {
+                this.postLifecycle('rejected', voiceId, frameOffset);
+                if (this.isInstanceVoice(voiceId)) this.clearTrack(voiceId);
+                return false;
+            }
+            let victim = 0;
+            for (let v = 1; v < active.length; v++) {
+                const better =
+                    settings.steal === 'quietest'
+                        ? (this.voiceLevels.get(active[v]) ?? 0) < (this.voiceLevels.get(active[victim]) ?? 0)
+                        : (this.voiceStartFrames.get(active[v]) ?? 0) < (this.voiceStartFrames.get(active[victim]) ?? 0);
+                if (better) victim = v;
+            }
+            const [stolen] = active.splice(victim, 1);
+            this.startFadeOut(stolen, { fadeOutMs: STEAL_FADE_MS }, frameOffset);
+            this.postLifecycle('stolen', stolen, frameOffset);
+        }
+        return true;
+    }
+
+    /**
+     * 메시지 key가 가리키는 보이스 ID 목록 (보이스 ID면 그 보이스, 키면 예약된 것을 포함한 그 키의 모든 보이스)
+     */
+    private getVoiceIds(key: string): string[] {
+        const owner = this.voiceKeys.get(key);
+        if (owner !== undefined && owner !== key) return [key];
+        const voiceIds: string[] = [];
+        for (const [voiceId, voiceKey] of this.voiceKeys) {
+            if (voiceKey === key) voiceIds.push(voiceId);
+        }
+        return voiceIds;
+    }
+
+    /**
+     * 키와 ID가 다른 추가 보이스인지 여부 (정지하거나 끝나면 해제됨)
+     */
+    private isInstanceVoice(voiceId: string): boolean {
+        const owner = this.voiceKeys.get(voiceId);
+        return owner !== undefined && owner !== voiceId;
+    }
+
+    /**
+     * 보이스와 보이스별 설정, 이펙트 상태를 모두 제거합니다.
+     */
+    private clearTrack(voiceId: string): void {
+        this.tracks.delete(voiceId);
+        this.voiceKeys.delete(voiceId);
+        this.voiceStartFrames.delete(voiceId);
+        this.voiceLevels.delete(voiceId);
+        this.timeStretchers.delete(voiceId);
+        this.trackInterpolation.delete(voiceId);
+        this.fades.delete(voiceId);
+        this.scheduledEvents.delete(voiceId);
+        this.retriggerBuffers.delete(voiceId);
+        this.eqSettings.delete(voiceId);
+        this.modulationSettings.delete(voiceId);
+        this.effectsSettings.delete(voiceId);
+        this.driveSettings.delete(voiceId);
+        this.dynamicsSettings.delete(voiceId);
+        this.volumeSettings.delete(voiceId);
+        this.spatialSettings.delete(voiceId);
+        this.automationLanes.delete(voiceId);
+        // 이펙트 버퍼 정리
+        this.clearEffectBuffers(voiceId);
+    }
+
+    /**
+     * 키 단위 상태(등록된 오디오 데이터, 키 설정, 보간 품질, 분석기, 미터)를 제거합니다.
+     */
+    private clearKey(key: string): void {
+        this.trackInterpolation.delete(key);
+        this.keySettings.delete(key);
+        this.audioData.delete(key);
+        if (key !== '') {
+            this.visualizers.delete(key);
+            this.meters.delete(key);
+            this.analysisBuffers.delete(key);
+        }
+    }
+
+    /**
+     * 트랙 재생을 멈추고 처음 위치로 되돌립니다.
+     */
+    private stopTrack(key: string): void {
+        const track = this.tracks.get(key);
+        if (track) {
+            track.isPlaying = false;
+            track.readIndex = 0;
+            this.timeStretchers.get(key)?.reset();
+            this.fades.delete(key);
+            this.postPosition(key, track);
+        }
+    }
+
+    /**
+     * 템포/피치 설정을 범위 안으로 제한해 트랙에 적용합니다. (지정하지 않은 항목은 유지)
+     */
+    private applyTimeStretch(track: ExtendedTrack, settings: TimeStretchSettings): void {
+        if (typeof settings.tempo === 'number' && Number.isFinite(settings.tempo)) {
+            track.tempo = Math.min(Math.max(settings.tempo, 0.25), 4);
+        }
+        if (typeof settings.pitch === 'number' && Number.isFinite(settings.pitch)) {
+            track.pitch = Math.min(Math.max(settings.pitch, -24), 24);
+        }
+        if (typeof settings.cents === 'number' && Number.isFinite(settings.cents)) {
+            track.cents = Math.min(Math.max(settings.cents, -100), 100);
+        }
+    }
+
+    /**
+     * 루프 설정을 트랙에 적용합니다. (지정하지 않은 항목은 유지)
+     * 구간은 버퍼 범위로 제한하고, loopEnd ≤ loopStart가 되면 버퍼 전체로 되돌립니다.
+     */
+    private applyLoopRegion(track: ExtendedTrack, region: LoopRegionMessageData): void {
+        const length = track.data[0].length;
+        const scale = region.loopUnit === 'samples' ? 1 : track.sampleRate;
+        if (typeof region.loop === 'boolean') {
+            track.loop = region.loop;
+        }
+        if (typeof region.loopStart === 'number' && !Number.isNaN(region.loopStart)) {
+            track.loopStart = Math.min(Math.max(0, region.loopStart * scale), length - 1);
+        }
+        if (typeof region.loopEnd === 'number' && !Number.isNaN(region.loopEnd)) {
+            track.loopEnd = Math.min(Math.max(1, region.loopEnd * scale), length);
+        }
+        if (track.loopEnd <= track.loopStart) {
+            track.loopStart = 0;
+            track.loopEnd = length;
+        }
+        if (typeof region.loopCount === 'number' && region.loopCount >= 0) {
+            track.loopsRemaining = Math.floor(region.loopCount);
+        }
+    }
+
+    /**
+     * 템포/피치가 기본값이 아니면 트랙의 타임 스트레처를 반환합니다. (없으면 생성, 기본값이면 제거)
+     */
+    private getTimeStretcher(key: string, track: ExtendedTrack): TimeStretcher | undefined {
+        if (track.tempo === 1 && track.pitch === 0 && track.cents === 0) {
+            this.timeStretchers.delete(key);
+            return undefined;
+        }
+        let stretcher = this.timeStretchers.get(key);
+        if (!stretcher) {
+            stretcher = new TimeStretcher(this.sampleRate);
+            this.timeStretchers.set(key, stretcher);
+        }
+        return stretcher;
+    }
+
+    /**
+     * 예약 이벤트를 트랙별 큐에 프레임 순서대로 추가합니다.
+     */
+    private scheduleEvent(key: string, event: ScheduledEvent): void {
+        const queue = this.scheduledEvents.get(key) || [];
+        let index = queue.length;
+        while (index > 0 && queue[index - 1].frame > event.frame) {
+            index--;
+        }
+        queue.splice(index, 0, event);
+        this.scheduledEvents.set(key, queue);
+    }
+
+    // ── 파라미터 자동화 ──
+
+    /**
+     * 경로에 해당하는 설정 객체와 필드를 찾습니다. ('volume' 제외)
+     */
+    private resolveParameter(trackKey: string, path: string): { target: Record<string, unknown>; field: string } | null {
+        const parts = path.split('.');
+        let target: object | undefined;
+        let field: string | undefined;
+        switch (parts[0]) {
+            case 'eq':
+                target = this.eqSettings.get(trackKey)?.[Number(parts[1])];
+                field = parts[2];
+                break;
+            case 'modulation':
+                target = this.modulationSettings.get(trackKey);
+                field = parts[1];
+                break;
+            case 'effects':
+                target = this.effectsSettings.get(trackKey);
+                field = parts[1];
+                break;
+            case 'drive':
+                target = this.driveSettings.get(trackKey);
+                field = parts[1];
+                break;
+            case 'dynamics':
+                target = this.dynamicsSettings.get(trackKey);
+                field = parts[1];
+                break;
+            case 'spatial':
+                target = this.spatialSettings.get(trackKey);
+                field = parts[1];
+                break;
+        }
+        return target && field ? { target: target as Record<string, unknown>, field } : null;
+    }
+
+    /**
+     * 파라미터의 현재 값을 읽습니다. (설정 객체는 있지만 필드가 없으면 0)
+     */
+    private readParameter(trackKey: string, path: string): number | undefined {
+        if (path === 'volume') {
+            return this.volumeSettings.get(trackKey);
+        }
+        const resolved = this.resolveParameter(trackKey, path);
+        if (!resolved) return undefined;
+        const value = resolved.target[resolved.field];
+        return typeof value === 'number' ? value : 0;
+    }
+
+    private writeParameter(trackKey: string, path: string, value: number): void {
+        if (path === 'volume') {
+            this.volumeSettings.set(trackKey, value);
+            return;
+        }
+        const resolved = this.resolveParameter(trackKey, path);
+        if (resolved) {
+            resolved.target[resolved.field] = value;
+        }
+    }
+
+    /**
+     * adjust* 메시지로 바뀐 숫자 필드를 이전 값에서 새 값으로 부드럽게 변화시킵니다.
+     * 메시지의 설정 객체는 그대로 두고, 복사본에 이전 값을 넣어 자동화 구간이 목표 값까지 갱신합니다.
+     * 이전 값이 숫자가 아니거나 스무딩이 꺼져 있거나 딜레이 시간 필드이면 즉시 적용됩니다.
+     * @returns 트랙 설정으로 저장할 복사본
+     */
+    private smoothSettings<T extends object>(trackKey: string, prefix: string, previous: T | undefined, next: T): T {
+        this.cancelAutomation(trackKey, prefix);
+        const settings = { ...next };
+        if (!previous) return settings;
+        const from = previous as Record<string, unknown>;
+        const to = settings as Record<string, unknown>;
+        for (const field of Object.keys(to)) {
+            if (UNSMOOTHED_PARAMETERS.has(prefix + field)) continue;
+            const fromValue = from[field];
+            const toValue = to[field];
+            if (typeof fromValue === 'number' && typeof toValue === 'number') {
+                if (this.smoothParameter(trackKey, prefix + field, fromValue, toValue)) {
+                    to[field] = fromValue;
+                }
+            }
+        }
+        return settings;
+    }
+
+    /**
+     * 단일 파라미터에 스무딩 구간을 추가합니다.
+     * @returns 구간이 추가되었으면 true (값이 같거나 스무딩이 꺼져 있으면 false)
+     */
+    private smoothParameter(trackKey: string, path: string, from: number, to: number): boolean {
+        if (from === to || this.smoothingSamples === 0) return false;
+        if (path === 'volume') {
+            this.volumeSettings.set(trackKey, from);
+        }
+        this.getAutomationSegments(trackKey, path).push({
+            startFrame: this.currentFrame,
+            endFrame: this.currentFrame + this.smoothingSamples,
+            startValue: from,
+            endValue: to,
+            curve: 'linear',
+        });
+        return true;
+    }
+
+    /**
+     * rampParameter 메시지 처리: 마지막 자동화 구간 뒤에 새 구간을 이어 붙입니다.
+     */
+    private scheduleRamp(trackKey: string, ramp: ParameterRampData): void {
+        const current = this.readParameter(trackKey, ramp.path);
+        if (current === undefined || !Number.isFinite(ramp.value) || !Number.isFinite(ramp.endFrame)) return;
+
+        const segments = this.getAutomationSegments(trackKey, ramp.path);
+        const last = segments[segments.length - 1];
+        const startFrame = last ? last.endFrame : this.currentFrame;
+        segments.push({
+            startFrame,
+            endFrame: Math.max(startFrame, ramp.endFrame),
+            startValue: last ? last.endValue : current,
+            endValue: ramp.value,
+            curve: ramp.curve,
+        });
+    }
+
+    private getAutomationSegments(trackKey: string, path: string): AutomationSegment[] {
+        let lanes = this.automationLanes.get(trackKey);
+        if (!lanes) {
+            lanes = new Map();
+            this.automationLanes.set(trackKey, lanes);
+        }
+        let segments = lanes.get(path);
+        if (!segments) {
+            segments = [];
+            lanes.set(path, segments);
+        }
+        return segments;
+    }
+
+    /**
+     * 경로가 prefix로 시작하는 자동화를 취소합니다. (파라미터는 현재 값 유지)
+     */
+    private cancelAutomation(trackKey: string, prefix: string): void {
+        const lanes = this.automationLanes.get(trackKey);
+        if (!lanes) return;
+        for (const path of lanes.keys()) {
+            if (path === prefix || path.startsWith(prefix)) {
+                lanes.delete(path);
+            }
+        }
+    }
+
+    /**
+     * 주어진 프레임 시점의 자동화 값을 계산해 설정에 반영합니다. (볼륨은 applyAutomatedTrackChain에서 샘플마다 계산)
+     */
+    private updateAutomation(trackKey: string, lanes: Map<string, AutomationSegment[]>, frame: number): void {
+        for (const [path, segments] of lanes.entries()) {
+            if (path === 'volume') continue;
+            const value = this.evaluateAutomation(segments, frame);
+            if (value !== undefined) {
+                this.writeParameter(trackKey, path, value);
+            }
+            if (segments.length === 0) {
+                lanes.delete(path);
+            }
+        }
+    }
+
+    /**
+     * 구간 큐에서 주어진 프레임 시점의 값을 계산합니다.
+     * 끝난 구간은 제거하고, 아직 시작하지 않은 구간이면 undefined (현재 값 유지)
+     */
+    private evaluateAutomation(segments: AutomationSegment[], frame: number): number | undefined {
+        let value: number | undefined;
+        while (segments.length > 0 && segments[0].endFrame <= frame) {
+            value = segments.shift()!.endValue;
+        }
+        if (segments.length > 0 && segments[0].startFrame <= frame) {
+            const segment = segments[0];
+            const t = (frame - segment.startFrame) / (segment.endFrame - segment.startFrame);
+            value = segment.curve === 'exponential' && segment.startValue * segment.endValue > 0
+                ? segment.startValue * Math.pow(segment.endValue / segment.startValue, t)
+                : segment.startValue + (segment.endValue - segment.startValue) * t;
+        }
+        return value;
+    }
+
+    // ── 메인 스레드 메시지 ──
+
+    /**
+     * 메인 스레드로 메시지를 전송합니다.
+     */
+    private postEvent(message: AudioProcessorEventMessage): void {
+        this.post(message);
+    }
+
+    /**
+     * 트랙 상태 변화(시작/종료/루프)를 알립니다.
+     * @param frameOffset - 현재 블록 시작(currentFrame) 기준 발생 시점 오프셋 (샘플)
+     */
+    private postLifecycle(
+        type: 'started' | 'ended' | 'looped' | 'stolen' | 'rejected',
+        trackKey: string,
+        frameOffset: number = 0
+    ): void {
+        this.postEvent({
+            type,
+            key: this.voiceKeys.get(trackKey) ?? trackKey,
+            voiceId: trackKey,
+            data: { contextTime: (this.currentFrame + frameOffset) / this.sampleRate },
+        });
+    }
+
+    /**
+     * 비주얼라이저 대역을 설정합니다.
+     * key가 ''이면 마스터 출력, 그 외에는 해당 트랙의 분석기를 만들거나 갱신하고,
+     * 트랙에 빈 배열을 지정하면 분석을 중단합니다.
+     */
+    private setVisualizerBands(key: string, bands: VisualizerBand[]): void {
+        if (key !== '' && bands.length === 0) {
+            this.visualizers.delete(key);
+            return;
+        }
+        let analyzer = this.visualizers.get(key);
+        if (!analyzer) {
+            analyzer = new SpectrumAnalyzer(this.sampleRate);
+            analyzer.setBufferSize(this.visualizerBufferSize);
+            analyzer.configure(this.visualizerSettings);
+            this.visualizers.set(key, analyzer);
+        }
+        analyzer.setBands(bands);
+    }
+
+    /**
+     * 미터에 샘플을 전달하고, 보고 시점이면 측정값을 전송합니다.
+     * @param key - 측정 대상 ('' = 마스터)
+     */
+    private measure(key: string, channels: Float32Array[], report: boolean): void {
+        let meter = this.meters.get(key);
+        if (!meter) {
+            meter = new LevelMeter(this.sampleRate);
+            this.meters.set(key, meter);
+        }
+        meter.write(channels);
+        if (report) {
+            this.postEvent({ type: 'meter', key, data: meter.takeReading() });
+        }
+    }
+
+    /**
+     * 분석된 대역별 레벨을 분석 대상 key('' = 마스터)와 함께 전송합니다.
+     */
+    private postVisualizerData(key: string, levels: number[]): void {
+        this.postEvent({ type: 'visualizerData', key, data: levels });
+    }
+
+    /**
+     * 보고 주기 동안의 최대 컴프레서 게인 리덕션을 보고하고 초기화합니다.
+     */
+    private postGainReduction(trackKey: string): void {
+        this.postEvent({
+            type: 'gainReduction',
+            key: this.voiceKeys.get(trackKey) ?? trackKey,
+            voiceId: trackKey,
+            data: { gainReductionDb: this.gainReductionPeaks.get(trackKey) || 0 },
+        });
+        this.gainReductionPeaks.set(trackKey, 0);
+    }
+
+    /**
+     * 트랙의 재생 위치를 보고합니다.
+     * @param frameOffset - 현재 블록 시작(currentFrame) 기준 측정 시점 오프셋 (샘플)
+     */
+    private postPosition(trackKey: string, track: ExtendedTrack, frameOffset: number = 0): void {
+        this.postEvent({
+            type: 'position',
+            key: this.voiceKeys.get(trackKey) ?? trackKey,
+            voiceId: trackKey,
+            data: {
+                position: track.readIndex / track.sampleRate,
+                duration: track.data[0].length / track.sampleRate,
+                contextTime: (this.currentFrame + frameOffset) / this.sampleRate,
+                isPlaying: track.isPlaying,
+                playbackRate: track.playbackRate,
+                tempo: track.tempo,
+            },
+        });
+    }
+
+    // ── 채널 / 이펙트 버퍼 관리 함수 ──
+
+    /**
+     * 채널 수만큼의 Float32Array 배열 생성
+     */
+    private createChannelBuffers(length: number): Float32Array[] {
+        const buffers: Float32Array[] = [];
+        for (let c = 0; c < this.channelCount; c++) {
+            buffers.push(new Float32Array(length));
+        }
+        return buffers;
+    }
+
+    /**
+     * 출력 채널 수 변경 시 채널별 버퍼를 다시 할당합니다.
+     */
+    private setChannelCount(channelCount: number): void {
+        this.channelCount = channelCount;
+        this.trackBuffers = [];
+        this.analysisBuffers.clear();
+        this.delayBuffers = this.createChannelBuffers(this.maxLatencySamples);
+        this.delayBufferIndex = 0;
+        this.lowPassStates = [];
+        for (let c = 0; c < channelCount; c++) {
+            this.lowPassStates.push(new Float64Array(4));
+        }
+        this.limiter.reset(channelCount);
+        for (const trackKey of this.tracks.keys()) {
+            this.initializeEffectBuffers(trackKey);
+        }
+    }
+
+    /**
+     * 트랙의 이펙트 버퍼 초기화 (현재 출력 채널 수 기준)
+     */
+    private initializeEffectBuffers(trackKey: string): void {
+        // Delay/Echo 버퍼 (재생마다 할당하지 않도록 효과를 켤 때 getDelayLines에서 할당)
+        this.delayEffectBuffers.delete(trackKey);
+        this.delayEffectWriteIndices.set(trackKey, 0);
+        this.echoEffectBuffers.delete(trackKey);
+        this.echoEffectWriteIndices.set(trackKey, 0);
+        
+        // Chorus/Flanger/Vibrato 버퍼
+        this.chorusBuffers.set(trackKey, this.createChannelBuffers(this.MAX_CHORUS_SAMPLES));
+        this.chorusWriteIndices.set(trackKey, 0);
+        
+        // Schroeder Reverb 버퍼 초기화
+        const combBufferSets: Float32Array[][] = [];
+        const allpassBufferSets: Float32Array[][] = [];
+        for (let c = 0; c < this.channelCount; c++) {
+            combBufferSets.push(this.COMB_DELAYS.map((delay) => new Float32Array(delay + 1)));
+            allpassBufferSets.push(this.ALLPASS_DELAYS.map((delay) => new Float32Array(delay + 1)));
+        }
+        this.reverbCombBuffers.set(trackKey, combBufferSets);
+        this.reverbCombIndices.set(trackKey, this.COMB_DELAYS.map(() => 0));
+        this.reverbAllpassBuffers.set(trackKey, allpassBufferSets);
+        this.reverbAllpassIndices.set(trackKey, this.ALLPASS_DELAYS.map(() => 0));
+        
+        // 모듈레이션 LFO 위상
+        this.modulationPhases.set(trackKey, 0);
+
+        // EQ / 컴프레서 상태
+        this.eqStates.delete(trackKey);
+        this.eqCoefficients.delete(trackKey);
+        this.dynamicsEnvelopes.set(trackKey, 0);
+        this.gainReductionPeaks.set(trackKey, 0);
+        this.lookaheadBuffers.set(trackKey, this.createChannelBuffers(this.MAX_LOOKAHEAD_SAMPLES));
+        this.lookaheadWriteIndices.set(trackKey, 0);
+    }
+
+    /**
+     * 트랙의 Delay/Echo 버퍼를 가져옵니다. (없으면 현재 출력 채널 수로 할당)
+     */
+    private getDelayLines(buffers: Map<string, Float32Array[]>, trackKey: string): Float32Array[] {
+        let lines = buffers.get(trackKey);
+        if (!lines) {
+            lines = this.createChannelBuffers(this.MAX_DELAY_SAMPLES);
+            buffers.set(trackKey, lines);
+        }
+        return lines;
+    }
+
+    /**
+     * 트랙의 이펙트 버퍼 정리
+     */
+    private clearEffectBuffers(trackKey: string): void {
+        this.delayEffectBuffers.delete(trackKey);
+        this.delayEffectWriteIndices.delete(trackKey);
+        this.echoEffectBuffers.delete(trackKey);
+        this.echoEffectWriteIndices.delete(trackKey);
+        this.chorusBuffers.delete(trackKey);
+        this.chorusWriteIndices.delete(trackKey);
+        this.reverbCombBuffers.delete(trackKey);
+        this.reverbCombIndices.delete(trackKey);
+        this.reverbAllpassBuffers.delete(trackKey);
+        this.reverbAllpassIndices.delete(trackKey);
+        this.modulationPhases.delete(trackKey);
+        this.eqStates.delete(trackKey);
+        this.eqCoefficients.delete(trackKey);
+        this.dynamicsEnvelopes.delete(trackKey);
+        this.gainReductionPeaks.delete(trackKey);
+        this.lookaheadBuffers.delete(trackKey);
+        this.lookaheadWriteIndices.delete(trackKey);
+    }
+
+    /**
+     * 리버브 파라미터 계산 (프리셋 또는 커스텀 값)
+     * @param effects - 이펙트 설정
+     * @returns combFeedback (decay), allpassFeedback (diffusion)
+     */
+    private getReverbParams(effects: EffectsSettings): { combFeedback: number; allpassFeedback: number } {
+        // 기본값
+        const DEFAULT_DECAY = 0.84;
+        const DEFAULT_DIFFUSION = 0.5;
+        
+        // 룸 사이즈 프리셋
+        const ROOM_PRESETS: Record<string, { decay: number; diffusion: number }> = {
+            small: { decay: 0.7, diffusion: 0.4 },
+            medium: { decay: 0.8, diffusion: 0.5 },
+            large: { decay: 0.85, diffusion: 0.55 },
+            hall: { decay: 0.9, diffusion: 0.6 },
+            plate: { decay: 0.88, diffusion: 0.7 },
+            cathedral: { decay: 0.95, diffusion: 0.65 },
+        };
+        
+        let combFeedback = DEFAULT_DECAY;
+        let allpassFeedback = DEFAULT_DIFFUSION;
+        
+        // 프리셋이 설정된 경우 프리셋 값 사용
+        if (effects.roomSize && ROOM_PRESETS[effects.roomSize]) {
+            const preset = ROOM_PRESETS[effects.roomSize];
+            combFeedback = preset.decay;
+            allpassFeedback = preset.diffusion;
+        }
+        
+        // 커스텀 값이 있으면 프리셋 값을 오버라이드
+        if (effects.reverbDecay !== undefined) {
+            combFeedback = Math.max(0, Math.min(0.99, effects.reverbDecay));
+        }
+        if (effects.reverbDiffusion !== undefined) {
+            allpassFeedback = Math.max(0, Math.min(0.99, effects.reverbDiffusion));
+        }
+        
+        return { combFeedback, allpassFeedback };
+    }
+}
@@ -1,71 +1,614 @@
 export function AudioLoaderWorker() {
+	/** 키 → 절대 URL(http:, data:, blob: 등) 또는 직접 전달된 데이터 */
 	interface FileMap {
-		[key: string]: string;
+		[key: string]: string | ArrayBuffer | Blob;
+	}
+
+	/** 수신한 바이트 수와 전체 크기(Content-Length, 모르면 0)를 받는 콜백 */
+	type ByteProgressCallback = (receivedBytes: number, totalBytes: number) => void;
+
+	/** 재시도 직전에 시도 번호(1부터)와 실패 사유를 받는 콜백 */
+	type RetryCallback = (attempt: number, reason: unknown) => void;
+
+	/** BYTE_PROGRESS 메시지의 최소 전송 간격 (ms) */
+	const BYTE_PROGRESS_INTERVAL_MS = 50;
+
+	/** 재시도/타임아웃 설정 (LOAD_AUDIO payload) */
+	interface RetryOptions {
+		retries: number;
+		retryDelayMs: number;
+		timeoutMs: number;
+	}
+
+	/** 영구 캐시 설정 (LOAD_AUDIO, CACHE payload) */
+	interface CacheConfig {
+		version: string;
+		format: "bytes" | "pcm";
+		quotaBytes: number;
+		dbName: string;
+		revalidate: boolean;
+	}
+
+	/** 디코딩된 PCM 데이터 */
+	interface PcmData {
+		channels: Float32Array[];
+		sampleRate: number;
+	}
+
+	/** 캐시 항목 메타데이터 ('meta' 저장소, 읽을 때마다 lastAccess 갱신) */
+	interface CacheMeta {
+		url: string;
+		version: string;
+		etag: string | null;
+		format: "bytes" | "pcm";
+		size: number;
+		lastAccess: number;
+	}
+
+	/** 캐시 항목 데이터 ('data' 저장소) */
+	interface CacheData {
+		url: string;
+		data: ArrayBuffer | PcmData;
+	}
+
+	/** 다운로드 결과 (arrayBuffer가 null이면 304 Not Modified) */
+	interface FetchResult {
+		arrayBuffer: ArrayBuffer | null;
+		etag: string | null;
+	}
+
+	// 진행 중인 다운로드 일괄 작업 (batchId → 중단 컨트롤러, CANCEL 메시지로 중단)
+	const controllers = new Map<number, AbortController>();
+
+	// 열린 캐시 데이터베이스 (이름 → IDBDatabase)
+	const databases = new Map<string, Promise<IDBDatabase>>();
+
+	/**
+	 * IDBRequest를 Promise로 감쌉니다.
+	 */
+	function request<T>(req: IDBRequest<T>): Promise<T> {
+		return new Promise((resolve, reject) => {
+			req.onsuccess = () => resolve(req.result);
+			req.onerror = () => reject(req.error);
+		});
+	}
+
+	/**
+	 * 트랜잭션이 커밋될 때까지 기다립니다.
+	 */
+	function complete(tx: IDBTransaction): Promise<void> {
+		return new Promise((resolve, reject) => {
+			tx.oncomplete = () => resolve();
+			tx.onerror = () => reject(tx.error);
+			tx.onabort = () => reject(tx.error);
+		});
+	}
+
+	/**
+	 * 캐시 데이터베이스를 엽니다. (처음이면 'meta', 'data' 저장소 생성)
+	 */
+	function openCache(dbName: string): Promise<IDBDatabase> {
+		let db = databases.get(dbName);
+		if (!db) {
+			const req = indexedDB.open(dbName, 1);
+			req.onupgradeneeded = () => {
+				const meta = req.result.createObjectStore("meta", { keyPath: "url" });
+				meta.createIndex("lastAccess", "lastAccess");
+				req.result.createObjectStore("data", { keyPath: "url" });
+			};
+			db = request(req);
+			databases.set(dbName, db);
+			// 열지 못하면 다음 요청에서 다시 시도합니다.
+			db.catch(() => databases.delete(dbName));
+		}
+		return db;
+	}
+
+	/**
+	 * 현재 버전의 캐시 항목 메타데이터를 읽습니다. (버전이 다르면 없는 것으로 봄)
+	 */
+	async function cacheMeta(
+		config: CacheConfig,
+		url: string
+	): Promise<CacheMeta | null> {
+		const db = await openCache(config.dbName);
+		const tx = db.transaction("meta", "readonly");
+		const meta: CacheMeta | undefined = await request(
+			tx.objectStore("meta").get(url)
+		);
+		return meta && meta.version === config.version ? meta : null;
+	}
+
+	/**
+	 * 캐시 항목 데이터를 읽고 LRU 순서를 갱신합니다.
+	 */
+	async function cacheRead(
+		config: CacheConfig,
+		meta: CacheMeta
+	): Promise<ArrayBuffer | PcmData | null> {
+		const db = await openCache(config.dbName);
+		const tx = db.transaction(["meta", "data"], "readwrite");
+		const entry: CacheData | undefined = await request(
+			tx.objectStore("data").get(meta.url)
+		);
+		tx.objectStore("meta").put({ ...meta, lastAccess: Date.now() });
+		await complete(tx);
+		return entry ? entry.data : null;
+	}
+
+	/**
+	 * 캐시 항목을 저장하고, 전체 크기가 용량을 넘으면 가장 오래 쓰지 않은 항목부터 지웁니다.
+	 */
+	async function cachePut(
+		config: CacheConfig,
+		url: string,
+		etag: string | null,
+		data: ArrayBuffer | PcmData
+	): Promise<void> {
+		const db = await openCache(config.dbName);
+		const tx = db.transaction(["meta", "data"], "readwrite");
+		const meta: CacheMeta = {
+			url,
+			version: config.version,
+			etag,
+			format: data instanceof ArrayBuffer ? "bytes" : "pcm",
+			size: sizeOf(data),
+			lastAccess: Date.now(),
+		};
+		tx.objectStore("meta").put(meta);
+		tx.objectStore("data").put({ url, data } as CacheData);
+		await complete(tx);
+		await evict(config);
+	}
+
+	/**
+	 * 용량을 넘는 만큼 lastAccess가 오래된 항목부터 지웁니다.
+	 */
+	async function evict(config: CacheConfig): Promise<void> {
+		const db = await openCache(config.dbName);
+		const tx = db.transaction(["meta", "data"], "readwrite");
+		const metas: CacheMeta[] = await request(
+			tx.objectStore("meta").index("lastAccess").getAll()
+		);
+		let usage = metas.reduce((sum, meta) => sum + meta.size, 0);
+		for (const meta of metas) {
+			if (usage <= config.quotaBytes) break;
+			tx.objectStore("meta").delete(meta.url);
+			tx.objectStore("data").delete(meta.url);
+			usage -= meta.size;
+		}
+		await complete(tx);
+	}
+
+	/**
+	 * 지정한 URL(생략하면 전체)의 캐시 항목을 지웁니다.
+	 */
+	async function cacheDelete(
+		config: CacheConfig,
+		urls?: string[]
+	): Promise<void> {
+		const db = await openCache(config.dbName);
+		const tx = db.transaction(["meta", "data"], "readwrite");
+		for (const store of ["meta", "data"]) {
+			if (urls) {
+				for (const url of urls) tx.objectStore(store).delete(url);
+			} else {
+				tx.objectStore(store).clear();
+			}
+		}
+		await complete(tx);
+	}
+
+	/**
+	 * 데이터의 바이트 크기 (PCM이면 모든 채널의 합)
+	 */
+	function sizeOf(data: ArrayBuffer | PcmData): number {
+		return data instanceof ArrayBuffer
+			? data.byteLength
+			: data.channels.reduce((sum, channel) => sum + channel.byteLength, 0);
 	}
 
 	/**
 	 * 주어진 URL에서 음원 데이터를 가져옵니다.
+	 * response.body를 스트림으로 읽으며 청크를 받을 때마다 onProgress를 호출합니다.
 	 * @param url 음원 파일 URL
 	 * @param options fetch 옵션 (기본값: { cache: "force-cache" })
-	 * @returns ArrayBuffer
+	 * @param onProgress 바이트 진행 콜백
+	 * @returns ArrayBuffer와 ETag (조건부 요청에 304가 오면 arrayBuffer는 null)
 	 */
 	async function loadAudioFile(
 		url: string,
-		options: RequestInit = { cache: "force-cache" }
-	): Promise<ArrayBuffer> {
+		options: RequestInit = { cache: "force-cache" },
+		onProgress?: ByteProgressCallback
+	): Promise<FetchResult> {
 		const response = await fetch(url, options);
+		const etag = response.headers.get("ETag");
+		if (response.status === 304) {
+			return { arrayBuffer: null, etag };
+		}
 		if (!response.ok) {
-			throw new Error(`HTTP error ${response.status}`);
+			const error = new Error(`HTTP error ${response.status}`);
+			// 408/429/5xx만 일시적인 오류로 보고 재시도합니다.
+			(error as Error & { retryable?: boolean }).retryable =
+				response.status === 408 ||
+				response.status === 429 ||
+				response.status >= 500;
+			throw error;
+		}
+		// 압축 전송이면 Content-Length가 실제 바이트 수보다 작을 수 있어 수신량과 비교해 보정합니다.
+		const contentLength = Number(response.headers.get("Content-Length")) || 0;
+		if (!response.body) {
+			const arrayBuffer = await response.arrayBuffer();
+			onProgress?.(
+				arrayBuffer.byteLength,
+				Math.max(contentLength, arrayBuffer.byteLength)
+			);
+			return { arrayBuffer, etag };
+		}
+
+		const reader = response.body.getReader();
+		const chunks: Uint8Array[] = [];
+		let receivedBytes = 0;
+		onProgress?.(0, contentLength);
+		for (;;) {
+			const { done, value } = await reader.read();
+			if (done) break;
+			chunks.push(value);
+			receivedBytes += value.byteLength;
+			onProgress?.(
+				receivedBytes,
+				contentLength > 0 ? Math.max(contentLength, receivedBytes) : 0
+			);
+		}
+
+		// 청크를 하나의 ArrayBuffer로 합칩니다.
+		const data = new Uint8Array(receivedBytes);
+		let offset = 0;
+		for (const chunk of chunks) {
+			data.set(chunk, offset);
+			offset += chunk.byteLength;
+		}
+		return { arrayBuffer: data.buffer, etag };
+	}
+
+	/**
+	 * 지정한 시간 동안 기다립니다. (signal이 중단되면 즉시 reject)
+	 */
+	function wait(ms: number, signal: AbortSignal): Promise<void> {
+		return new Promise((resolve, reject) => {
+			if (signal.aborted) {
+				reject(signal.reason);
+				return;
+			}
+			const onAbort = () => {
+				clearTimeout(timer);
+				reject(signal.reason);
+			};
+			const timer = setTimeout(() => {
+				signal.removeEventListener("abort", onAbort);
+				resolve();
+			}, ms);
+			signal.addEventListener("abort", onAbort, { once: true });
+		});
+	}
+
+	/**
+	 * 타임아웃과 지수 백오프 재시도를 적용해 음원 데이터를 가져옵니다.
+	 * 시도마다 별도의 AbortController를 사용하며, 일괄 작업의 signal이 중단되면 함께 중단됩니다.
+	 * 타임아웃은 데이터를 받을 때마다 다시 시작되므로 큰 파일도 수신이 멈추지 않는 한 중단되지 않습니다.
+	 * @param url 음원 파일 URL
+	 * @param options fetch 옵션
+	 * @param retry 재시도/타임아웃 설정
+	 * @param signal 일괄 작업의 중단 신호
+	 * @param onProgress 바이트 진행 콜백 (재시도하면 0부터 다시 보고)
+	 * @param onRetry 재시도 콜백
+	 */
+	async function loadWithRetry(
+		url: string,
+		options: RequestInit | undefined,
+		retry: RetryOptions,
+		signal: AbortSignal,
+		onProgress?: ByteProgressCallback,
+		onRetry?: RetryCallback
+	): Promise<FetchResult> {
+		for (let attempt = 0; ; attempt++) {
+			const attemptController = new AbortController();
+			const onAbort = () => attemptController.abort(signal.reason);
+			signal.addEventListener("abort", onAbort, { once: true });
+			let timer: ReturnType<typeof setTimeout> | undefined;
+			const restartTimer = () => {
+				clearTimeout(timer);
+				if (retry.timeoutMs <= 0) return;
+				timer = setTimeout(
+					() =>
+						attemptController.abort(
+							new Error(`Timeout after ${retry.timeoutMs}ms`)
+						),
+					retry.timeoutMs
+				);
+			};
+			restartTimer();
+			try {
+				return await loadAudioFile(
+					url,
+					{
+						cache: "force-cache",
+						...options,
+						signal: attemptController.signal,
+					},
+					(receivedBytes, totalBytes) => {
+						restartTimer();
+						onProgress?.(receivedBytes, totalBytes);
+					}
+				);
+			} catch (error) {
+				if (signal.aborted) throw error;
+				// 타임아웃이면 abort 사유(타임아웃 오류)를 보고합니다.
+				const reason = attemptController.signal.aborted
+					? attemptController.signal.reason
+					: error;
+				const retryable =
+					(reason as Error & { retryable?: boolean }).retryable !== false;
+				if (!retryable || attempt >= retry.retries) throw reason;
+				onRetry?.(attempt + 1, reason);
+				await wait(retry.retryDelayMs * 2 ** attempt, signal);
+			} finally {
+				clearTimeout(timer);
+				signal.removeEventListener("abort", onAbort);
+			}
 		}
-		return response.arrayBuffer();
 	}
 
 	// Worker 메시지 핸들러
 	self.onmessage = async (event: MessageEvent) => {
 		const { type, payload } = event.data;
-		if (type === "LOAD_AUDIO") {
-			const { fileMap, fetchOptions } = payload as {
+		if (type === "CANCEL") {
+			// 진행 중인 다운로드와 대기 중인 재시도를 중단합니다. (batchId가 없으면 전체)
+			const batchId: number | undefined = payload?.batchId;
+			for (const [id, controller] of controllers) {
+				if (batchId !== undefined && id !== batchId) continue;
+				controller.abort(new Error("Load cancelled"));
+				controllers.delete(id);
+			}
+		} else if (type === "CACHE") {
+			// 메인 스레드의 캐시 확인/삭제/PCM 저장 요청 (requestId로 결과 전달)
+			const { requestId, op, cache, urls, url, pcm } = payload as {
+				requestId: number;
+				op: "has" | "delete" | "putPcm";
+				cache: CacheConfig;
+				urls?: string[];
+				url?: string;
+				pcm?: PcmData;
+			};
+			try {
+				let result: boolean[] | undefined;
+				if (op === "has") {
+					const metas = await Promise.all(
+						(urls ?? []).map((url) => cacheMeta(cache, url))
+					);
+					result = metas.map((meta) => meta !== null);
+				} else if (op === "delete") {
+					await cacheDelete(cache, urls);
+				} else if (op === "putPcm" && url && pcm) {
+					// 원본 바이트 항목을 디코딩된 PCM으로 바꿉니다. (ETag 유지)
+					const meta = await cacheMeta(cache, url);
+					await cachePut(cache, url, meta?.etag ?? null, pcm);
+				}
+				self.postMessage({
+					type: "CACHE_RESULT",
+					payload: { requestId, result },
+				});
+			} catch (error) {
+				self.postMessage({
+					type: "CACHE_RESULT",
+					payload: { requestId, error: String(error) },
+				});
+			}
+		} else if (type === "LOAD_AUDIO") {
+			const {
+				batchId = 0,
+				fileMap,
+				fetchOptions,
+				cache,
+				prewarm = false,
+				concurrency = 4,
+				priorities = {},
+				retries = 2,
+				retryDelayMs = 500,
+				timeoutMs = 30000,
+			} = payload as {
+				batchId?: number;
 				fileMap: FileMap;
 				fetchOptions?: RequestInit;
-			};
-			const entries = Object.entries(fileMap);
+				cache?: CacheConfig;
+				prewarm?: boolean;
+				concurrency?: number;
+				priorities?: { [key: string]: number };
+			} & Partial<RetryOptions>;
+			const retry: RetryOptions = { retries, retryDelayMs, timeoutMs };
+			const controller = new AbortController();
+			controllers.set(batchId, controller);
+			// 우선순위가 높은 키부터 받습니다. (같으면 fileMap 순서)
+			const entries = Object.entries(fileMap).sort(
+				([a], [b]) => (priorities[b] ?? 0) - (priorities[a] ?? 0)
+			);
 			const total = entries.length;
 			let loadedCount = 0;
+			let next = 0;
 
-			for (const [key, url] of entries) {
+			const loadEntry = async (
+				key: string,
+				source: string | ArrayBuffer | Blob
+			) => {
+				// 직접 전달된 데이터는 URL 대신 빈 문자열로 보고합니다.
+				const url = typeof source === "string" ? source : "";
+				// data:, blob: URL과 직접 전달된 데이터는 네트워크를 거치지 않으므로 캐시하지 않습니다.
+				const cacheable = /^https?:/i.test(url);
+				// 수신 바이트는 일정 간격으로만 보고하고, 다 받으면 마지막 값을 보냅니다.
+				let lastPostTime = -Infinity;
+				// 전체 크기 (Content-Length가 없으면 다 받을 때까지 null)
+				let totalBytes: number | null = null;
+				const postBytes = (receivedBytes: number, force = false) => {
+					const now = Date.now();
+					if (!force && now - lastPostTime < BYTE_PROGRESS_INTERVAL_MS) return;
+					lastPostTime = now;
+					self.postMessage({
+						type: "BYTE_PROGRESS",
+						payload: { batchId, key, url, receivedBytes, totalBytes },
+					});
+				};
+				// 다운로드를 실패시키지 않는 문제(재시도, 캐시 오류)는 WARNING으로 보고합니다.
+				const postWarning = (
+					reason: "retry" | "cacheRead" | "cacheWrite",
+					message: string
+				) => {
+					self.postMessage({
+						type: "WARNING",
+						payload: { batchId, key, url, reason, message },
+					});
+				};
 				try {
-					const arrayBuffer = await loadAudioFile(url, fetchOptions);
+					// 캐시 오류는 다운로드를 실패시키지 않고 네트워크로 대신 받습니다.
+					const meta =
+						cache && cacheable
+							? await cacheMeta(cache, url).catch((error) => {
+									postWarning("cacheRead", String(error));
+									return null;
+							  })
+							: null;
+					let size = meta?.size ?? 0;
+					// 네트워크에서 받아 캐시에 저장합니다. (etag를 주면 조건부 요청, 304면 null)
+					const download = async (etag: string | null) => {
+						const headers = new Headers(fetchOptions?.headers);
+						if (etag) headers.set("If-None-Match", etag);
+						const result = await loadWithRetry(
+							url,
+							{ ...fetchOptions, headers },
+							retry,
+							controller.signal,
+							(receivedBytes, contentLength) => {
+								// 재시도로 다시 시작하면 0을 바로 보고합니다.
+								const restarted = receivedBytes === 0;
+								totalBytes = contentLength > 0 ? contentLength : null;
+								postBytes(receivedBytes, restarted);
+							},
+							(attempt, reason) =>
+								postWarning(
+									"retry",
+									`Retry ${attempt}/${retry.retries}: ${reason}`
+								)
+						);
+						if (!result.arrayBuffer) return null;
+						size = result.arrayBuffer.byteLength;
+						// 전송하면 ArrayBuffer가 분리되므로 먼저 저장합니다.
+						if (cache && cacheable) {
+							await cachePut(cache, url, result.etag, result.arrayBuffer).catch(
+								(error) => postWarning("cacheWrite", String(error))
+							);
+						}
+						return result.arrayBuffer;
+					};
+
+					let data: ArrayBuffer | PcmData | null = null;
+					let fromCache = meta !== null && !cache?.revalidate;
+					if (typeof source !== "string") {
+						// 직접 전달된 데이터는 그대로 사용합니다. (Blob은 읽어서 ArrayBuffer로)
+						data = source instanceof Blob ? await source.arrayBuffer() : source;
+						size = data.byteLength;
+					} else if (!fromCache) {
+						// 재검증 시에는 캐시된 ETag로 조건부 요청을 보냅니다.
+						data = await download(meta?.etag ?? null);
+						if (!data && !meta) throw new Error("HTTP error 304");
+						fromCache = data === null;
+					}
+					// 미리 받기(prewarm)는 캐시에만 저장하므로 캐시 데이터를 읽지 않습니다.
+					if (fromCache && cache && meta && !prewarm) {
+						data = await cacheRead(cache, meta).catch(() => null);
+						if (!data) {
+							// 캐시 항목을 읽지 못하면 다시 받습니다.
+							fromCache = false;
+							data = await download(null);
+							if (!data) throw new Error("HTTP error 304");
+						}
+					}
+					totalBytes = size;
+					postBytes(size, true);
 					loadedCount++;
 
 					// 진행 상황 전송
 					self.postMessage({
 						type: "PROGRESS",
-						payload: { key, url, loadedCount, total },
+						payload: { batchId, key, url, loadedCount, total },
 					});
 
-					// ArrayBuffer 전송 (transferable 객체 사용)
-					self.postMessage(
-						{
+					// 데이터 전송 (transferable 객체 사용, PCM 캐시면 디코딩된 채널, 미리 받기면 데이터 없음)
+					if (prewarm || !data) {
+						self.postMessage({
 							type: "LOADED",
-							payload: { key, url, arrayBuffer },
-						},
-						[arrayBuffer]
-					);
+							payload: { batchId, key, url, cached: fromCache },
+						});
+					} else if (data instanceof ArrayBuffer) {
+						self.postMessage(
+							{
+								type: "LOADED",
+								payload: {
+									batchId,
+									key,
+									url,
+									cached: fromCache,
+									arrayBuffer: data,
+								},
+							},
+							[data]
+						);
+					} else {
+						self.postMessage(
+							{
+								type: "LOADED",
+								payload: {
+									batchId,
+									key,
+									url,
+									cached: fromCache,
+									pcm: data,
+								},
+							},
+							data.channels.map((channel) => channel.buffer)
+						);
+					}
 				} catch (error) {
+					// 취소된 다운로드는 오류로 보고하지 않습니다.
+					if (controller.signal.aborted) return;
 					console.error(
 						`[Worker] Audio load fail: key=${key}, url=${url}, error=${error}`
 					);
 					self.postMessage({
 						type: "ERROR",
-						payload: { key, url, message: String(error) },
+						payload: { batchId, key, url, message: String(error) },
 					});
 				}
+			};
+
+			// 최대 concurrency개의 다운로드를 동시에 진행하며, 하나가 끝나면 대기열의 다음 파일을 받습니다.
+			const runSlot = async () => {
+				while (next < entries.length && !controller.signal.aborted) {
+					const [key, source] = entries[next++];
+					await loadEntry(key, source);
+				}
+			};
+			const slotCount = Math.min(
+				Math.max(1, Math.floor(concurrency)),
+				entries.length
+			);
+			await Promise.all(Array.from({ length: slotCount }, runSlot));
+			if (controllers.get(batchId) === controller) {
+				controllers.delete(batchId);
 			}
 
-			// 모든 파일 로딩 완료 알림 전송
+			// 모든 파일 로딩 완료(또는 취소) 알림 전송
 			self.postMessage({
 				type: "DONE",
-				payload: { total },
+				payload: { batchId, total, cancelled: controller.signal.aborted },
 			});
 		}
 	};
@@ -1,15 +1,43 @@
 import {
+	AudioProcessorEventMessage,
 	AudioProcessorPostMessage,
+	AutomationCurve,
+	AutomationPath,
 	DriveSettings,
 	DynamicsSettings,
 	EffectsSettings,
 	EQBand,
+	GainReductionData,
+	InterpolationQuality,
+	LimiterSettings,
+	LoopRegionMessageData,
+	MeterData,
 	ModulationSettings,
+	PlayMessageData,
+	PlayOptions,
+	SpatialSettings,
+	StopMessageData,
+	StopOptions,
+	TimeStretchSettings,
+	TrackLifecycleData,
+	TrackPosition,
 	VisualizerBand,
+	VoiceStealPolicy,
+	VisualizerSettings,
 } from "./types";
+import { getEQFrequencyResponse } from "./biquad";
+import {
+	createLogVisualizerBands,
+	isPowerOfTwo,
+	MAX_VISUALIZER_BUFFER_SIZE,
+	MIN_VISUALIZER_BUFFER_SIZE,
+} from "./spectrum";
+import { resolveUrl } from "./utils";
 
 /** Worker에서 전달되는 메시지 payload 타입들 */
 interface ProgressPayload {
+	/** 다운로드 일괄 작업 ID (loadAll/loadKeys 호출마다 발급) */
+	batchId: number;
 	key: string;
 	url: string;
 	loadedCount: number;
@@ -17,42 +45,246 @@ interface ProgressPayload {
 }
 
 interface LoadedPayload {
+	batchId: number;
+	key: string;
+	url: string;
+	/** 영구 캐시에서 읽었는지 여부 */
+	cached: boolean;
+	/** 원본 파일 데이터 (PCM 캐시 항목이거나 미리 받기면 없음) */
+	arrayBuffer?: ArrayBuffer;
+	/** PCM 캐시 항목의 디코딩된 채널 데이터 */
+	pcm?: { channels: Float32Array[]; sampleRate: number };
+}
+
+interface CacheResultPayload {
+	requestId: number;
+	result?: boolean[];
+	error?: string;
+}
+
+/**
+ * 파일별 수신 바이트
+ * totalBytes는 Content-Length이며, 아직 응답을 받지 않았거나 Content-Length가 없으면 다 받을 때까지 null입니다.
+ */
+export interface ByteProgress {
+	receivedBytes: number;
+	totalBytes: number | null;
+}
+
+interface ByteProgressPayload extends ByteProgress {
+	batchId: number;
 	key: string;
 	url: string;
-	arrayBuffer: ArrayBuffer;
 }
 
 interface DonePayload {
+	batchId: number;
 	total: number;
+	/** CANCEL 메시지로 중단되었는지 여부 */
+	cancelled: boolean;
 }
 
 interface ErrorPayload {
+	batchId: number;
 	key: string;
 	url: string;
 	message: string;
 }
 
-export type WorkerMessagePayload = ProgressPayload | LoadedPayload | DonePayload | ErrorPayload;
+interface WarningPayload {
+	batchId: number;
+	key: string;
+	url: string;
+	/** 재시도, 캐시 읽기 실패, 캐시 쓰기 실패 */
+	reason: "retry" | "cacheRead" | "cacheWrite";
+	message: string;
+}
+
+export type WorkerMessagePayload =
+	| ProgressPayload
+	| ByteProgressPayload
+	| LoadedPayload
+	| DonePayload
+	| ErrorPayload
+	| WarningPayload
+	| CacheResultPayload;
+
+/** loadAll/loadKeys 옵션 */
+export interface LoadOptions {
+	/**
+	 * true면 첫 다운로드 실패 시 나머지 다운로드를 취소하고 Error로 reject합니다. (기본값: true)
+	 * cancelLoad로 취소되면 AbortError DOMException으로 reject합니다.
+	 * false면 실패한 파일을 건너뛰고 키별 결과를 담은 LoadReport로 resolve합니다.
+	 */
+	failFast?: boolean;
+	/** 파일당 재시도 횟수 (네트워크 오류, 타임아웃, 408/429/5xx만 재시도, 기본값: 2) */
+	retries?: number;
+	/** 첫 재시도 대기 시간 (ms, 재시도마다 2배, 기본값: 500) */
+	retryDelayMs?: number;
+	/** 데이터를 받지 못한 채 기다릴 최대 시간 (ms, 넘으면 해당 시도 중단, 0이면 없음, 기본값: 30000) */
+	timeoutMs?: number;
+	/** 동시에 진행할 최대 다운로드 수 (기본값: 4) */
+	concurrency?: number;
+	/** 키별 우선순위 (높을수록 먼저 다운로드, 기본값: 0) - setPriority로 지정한 값보다 우선 */
+	priorities?: { [key: string]: number };
+}
+
+/** 영구 캐시 옵션 (enableCache) */
+export interface CacheOptions {
+	/** 캐시 버전 (URL과 함께 항목을 구분, 바꾸면 이전 버전 항목은 무시되고 다시 받음, 기본값: "") */
+	version?: string;
+	/** 저장 형식 ("bytes": 원본 파일, "pcm": 디코딩된 PCM - 디코딩 없이 바로 시작하지만 용량이 큼, 기본값: "bytes") */
+	format?: "bytes" | "pcm";
+	/** 최대 용량 (바이트, 넘으면 가장 오래 쓰지 않은 항목부터 삭제, 기본값: 256MB) */
+	quotaBytes?: number;
+	/** IndexedDB 데이터베이스 이름 (기본값: "quick-sonic-worklet-cache") */
+	dbName?: string;
+	/** true면 캐시된 ETag로 조건부 요청을 보내 바뀐 파일만 다시 받음 (오프라인이면 실패, 기본값: false) */
+	revalidate?: boolean;
+}
+
+/** 파일별 다운로드 결과 */
+export interface LoadResult {
+	/** 절대 URL (직접 전달한 데이터면 빈 문자열) */
+	url: string;
+	status: "loaded" | "failed" | "cancelled";
+	/** 실패 사유 (status가 "failed"일 때) */
+	message?: string;
+	/** 영구 캐시에서 읽었는지 여부 (status가 "loaded"일 때) */
+	cached?: boolean;
+}
+
+/** loadAll/loadKeys 결과 (키 → 다운로드 결과) */
+export type LoadReport = Record<string, LoadResult>;
+
+/** 비주얼라이저 데이터 콜백 (key: 분석 대상, 빈 문자열이면 마스터 출력) */
+export type VisualizerDataCallback = (data: number[], key: string) => void;
+
+/** 트랙 상태 이벤트 detail ('started', 'ended', 'looped', 'stolen', 'rejected') */
+export interface TrackEventDetail extends TrackLifecycleData {
+	key: string;
+	/** 이벤트가 발생한 보이스 ID (playAudio의 반환값) */
+	voiceId?: string;
+}
+
+/** 다운로드 실패 이벤트 detail ('loadError') */
+export type LoadErrorDetail = ErrorPayload;
+
+/** 다운로드를 실패시키지 않은 문제 이벤트 detail ('loadWarning') */
+export type LoadWarningDetail = WarningPayload;
+
+/** 디코딩 실패 이벤트 detail ('decodeError') */
+export interface DecodeErrorDetail {
+	key: string;
+	error: unknown;
+}
+
+/** AudioPreloader가 발생시키는 이벤트 타입 */
+export interface AudioPreloaderEventMap {
+	started: CustomEvent<TrackEventDetail>;
+	ended: CustomEvent<TrackEventDetail>;
+	looped: CustomEvent<TrackEventDetail>;
+	stolen: CustomEvent<TrackEventDetail>;
+	rejected: CustomEvent<TrackEventDetail>;
+	loadError: CustomEvent<LoadErrorDetail>;
+	loadWarning: CustomEvent<LoadWarningDetail>;
+	decodeError: CustomEvent<DecodeErrorDetail>;
+}
 
+/** 오프라인 렌더링 시 다시 적용할 설정 메시지 타입 (마지막 값만 유지) */
+const REPLAYED_MESSAGE_TYPES = new Set<AudioProcessorPostMessage["type"]>([
+	"adjustVolume",
+	"adjustMasterVolume",
+	"setLowPassFilter",
+	"setLimiter",
+	"adjustEQ",
+	"adjustModulation",
+	"adjustSpatial",
+	"adjustEffects",
+	"adjustDrive",
+	"adjustDynamics",
+	"adjustLatency",
+	"adjustLatencySamples",
+	"adjustNormalize",
+	"setInterpolation",
+]);
+
+/**
+ * 키 → 오디오 소스
+ * - 문자열: baseUrl 기준 상대 경로 또는 절대 URL (data:, blob: 포함)
+ * - ArrayBuffer/Blob: 네트워크 없이 그대로 사용하는 파일 데이터
+ */
 export interface FileMap {
-	[key: string]: string;
+	[key: string]: string | ArrayBuffer | Blob;
 }
 
-export class AudioPreloader {
+export class AudioPreloader extends EventTarget {
 	private worker: Worker;
 	private audioDataMap = new Map<string, ArrayBuffer>();
 	private audioBuffers = new Map<string, AudioBuffer>();
 
+	// 영구 캐시 설정 (null이면 사용 안 함)과 Worker 캐시 요청 대기열
+	private cacheOptions: CacheOptions | null = null;
+	private cacheRequests = new Map<
+		number,
+		{ resolve: (result?: boolean[]) => void; reject: (reason: Error) => void }
+	>();
+	private nextCacheRequestId = 0;
+	// PCM 캐시에서 읽어 다시 저장할 필요가 없는 키
+	private pcmCachedKeys = new Set<string>();
+
+	// 키별 다운로드 우선순위와 다음 일괄 작업 ID
+	private priorities = new Map<string, number>();
+	private nextBatchId = 0;
+
 	private loadingProgress = 0;
+	// 키별 수신 바이트 (BYTE_PROGRESS 메시지)
+	private downloadBytes = new Map<string, ByteProgress>();
 	private loadedCount = 0;
 	private totalCount = 0;
+	// 일괄 작업별 키와 파일 수 (진행 중인 작업이 없을 때 새 작업이 시작되면 초기화)
+	private batchProgress = new Map<
+		number,
+		{ keys: string[]; loadedCount: number; total: number; done: boolean }
+	>();
 	public isWorkerDone = false;
 
 	private audioContext: AudioContext;
 	private audioWorkletNode: AudioWorkletNode | null = null;
+	private workletModuleUrl: string | null = null;
+	// AudioWorklet에 채널 데이터를 등록한 키 (재생 시 키로만 참조)
+	private registeredAudio = new Set<string>();
+
+	// 오프라인 렌더링용: 트랙/마스터 설정 메시지와 재생 중인 트랙의 재생 옵션 (stopFrame: 예약된 정지 프레임)
+	private settingsLog = new Map<string, AudioProcessorPostMessage>();
+	private activePlays = new Map<
+		string,
+		Omit<PlayMessageData, "channels"> & { stopFrame?: number }
+	>();
+
+	// 키별 동시 재생 수 (2 이상이면 재생마다 새 보이스 ID 발급)
+	private polyphonyLimits = new Map<string, number>();
+	private voiceCounter = 0;
 
 	// 비주얼라이저 데이터를 처리할 콜백 함수
-	private visualizerCallback: ((data: number[]) => void) | null = null;
+	private visualizerCallbacks = new Map<string, VisualizerDataCallback>();
+
+	// 트랙(키와 보이스 ID)별 마지막 재생 위치 보고 및 콜백
+	private trackPositions = new Map<string, TrackPosition>();
+	private positionCallback:
+		| ((key: string, position: TrackPosition, voiceId: string) => void)
+		| null = null;
+
+	// 트랙(키와 보이스 ID)별 마지막 컴프레서 게인 리덕션 보고 (dB) 및 콜백
+	private gainReductions = new Map<string, number>();
+	private gainReductionCallback:
+		| ((key: string, gainReductionDb: number, voiceId: string) => void)
+		| null = null;
+
+	// 트랙별('' = 마스터) 마지막 미터 보고 및 콜백
+	private meterReadings = new Map<string, MeterData>();
+	private meterCallback: ((key: string, meter: MeterData) => void) | null =
+		null;
 
 	constructor(
 		private baseUrl: string,
@@ -61,6 +293,7 @@ export class AudioPreloader {
 		private fetchOptions?: RequestInit,
 		private onWorkerMessage?: (type: string, payload: WorkerMessagePayload) => void
 	) {
+		super();
 		this.audioContext = new AudioContext();
 		this.worker = new Worker(workerUrl);
 		this.worker.onmessage = (e: MessageEvent) => {
@@ -69,22 +302,70 @@ export class AudioPreloader {
 				this.onWorkerMessage(type, payload);
 			}
 			switch (type) {
-				case "PROGRESS":
-					this.loadingProgress = payload.loadedCount / payload.total;
-					this.loadedCount = payload.loadedCount;
-					this.totalCount = payload.total;
+				case "PROGRESS": {
+					const batch = this.batchProgress.get(payload.batchId);
+					if (batch) {
+						batch.loadedCount = payload.loadedCount;
+						batch.total = payload.total;
+						this.updateLoadProgress();
+					}
+					break;
+				}
+				case "BYTE_PROGRESS":
+					this.downloadBytes.set(payload.key, {
+						receivedBytes: payload.receivedBytes,
+						totalBytes: payload.totalBytes,
+					});
 					break;
 				case "LOADED":
-					this.audioDataMap.set(payload.key, payload.arrayBuffer);
+					if (payload.arrayBuffer) {
+						// 다시 받은 데이터는 decodeAll에서 새로 디코딩합니다.
+						this.audioDataMap.set(payload.key, payload.arrayBuffer);
+						this.audioBuffers.delete(payload.key);
+						this.registeredAudio.delete(payload.key);
+						this.pcmCachedKeys.delete(payload.key);
+					} else if (payload.pcm) {
+						// PCM 캐시 항목은 디코딩 없이 바로 AudioBuffer로 만듭니다.
+						this.setAudioBuffer(
+							payload.key,
+							this.createAudioBuffer(payload.pcm.channels, payload.pcm.sampleRate)
+						);
+						this.pcmCachedKeys.add(payload.key);
+					}
+					break;
+				case "CACHE_RESULT": {
+					const pending = this.cacheRequests.get(payload.requestId);
+					this.cacheRequests.delete(payload.requestId);
+					if (payload.error) {
+						pending?.reject(new Error(payload.error));
+					} else {
+						pending?.resolve(payload.result);
+					}
 					break;
-				case "DONE":
-					this.isWorkerDone = true;
+				}
+				case "DONE": {
+					const batch = this.batchProgress.get(payload.batchId);
+					if (batch) {
+						batch.done = true;
+						// 실패하거나 취소된 파일은 바이트 진행률에서 뺍니다.
+						for (const key of batch.keys) {
+							const bytes = this.downloadBytes.get(key);
+							if (bytes && bytes.totalBytes === null) this.downloadBytes.delete(key);
+						}
+					}
+					this.updateLoadProgress();
 					break;
+				}
 				case "ERROR":
 					// Worker에서는 payload에 fileName 대신 url을 전달하므로 수정
 					console.error(
 						`[Error] key=${payload.key}, file=${payload.url}, msg=${payload.message}`
 					);
+					this.downloadBytes.delete(payload.key);
+					this.emit("loadError", payload as LoadErrorDetail);
+					break;
+				case "WARNING":
+					this.emit("loadWarning", payload as LoadWarningDetail);
 					break;
 			}
 		};
@@ -93,38 +374,311 @@ export class AudioPreloader {
 	/**
 	 * 모든 오디오 파일을 Worker를 통해 다운로드합니다.
 	 * 다운로드 진행 상황은 onWorkerMessage 콜백을 통해 전달됩니다.
+	 * 파일마다 타임아웃과 지수 백오프 재시도가 적용되며, cancelLoad로 중단할 수 있습니다.
+	 * 최대 concurrency개의 파일을 우선순위가 높은 순서로 동시에 받습니다.
+	 * @param options - 실패 처리 방식(failFast), 동시 다운로드 수, 우선순위, 재시도/타임아웃 설정
+	 * @returns 키별 다운로드 결과 (failFast 모드에서는 실패나 취소 시 reject)
+	 */
+	public loadAll(options: LoadOptions = {}): Promise<LoadReport> {
+		return this.loadFiles(this.fileMap, options);
+	}
+
+	/**
+	 * fileMap 중 지정한 키만 다운로드합니다. (필요할 때 나눠 받기)
+	 * 이미 받은 키와 fileMap에 없는 키는 건너뜁니다.
+	 * @param keys - 다운로드할 키 목록
+	 * @param options - loadAll과 같은 옵션
+	 * @returns 요청한 키 중 새로 받은 키의 다운로드 결과
+	 */
+	public loadKeys(
+		keys: string[],
+		options: LoadOptions = {}
+	): Promise<LoadReport> {
+		const fileMap: FileMap = {};
+		for (const key of keys) {
+			if (!(key in this.fileMap)) {
+				console.warn(`No file for key=${key}`);
+			} else if (!this.audioDataMap.has(key) && !this.audioBuffers.has(key)) {
+				fileMap[key] = this.fileMap[key];
+			}
+		}
+		return this.loadFiles(fileMap, options);
+	}
+
+	/**
+	 * 다운로드한 파일을 IndexedDB에 영구 저장하는 캐시를 켭니다. (이후 loadAll/loadKeys부터 적용)
+	 * 캐시는 Worker에서 URL과 버전으로 찾으며, 있으면 네트워크 없이 바로 불러오므로 재방문 시 즉시 시작하고 오프라인에서도 동작합니다.
+	 * format이 "pcm"이면 decodeAll에서 디코딩한 PCM으로 바꿔 저장해 다음부터 디코딩도 건너뜁니다.
+	 * @param options - 버전, 저장 형식, 용량, 데이터베이스 이름, ETag 재검증 여부
+	 */
+	public enableCache(options: CacheOptions = {}): void {
+		this.cacheOptions = { ...options };
+	}
+
+	/**
+	 * 영구 캐시 사용을 끕니다. (저장된 항목은 clearCache로 지움)
+	 */
+	public disableCache(): void {
+		this.cacheOptions = null;
+	}
+
+	/**
+	 * 키마다 현재 버전의 캐시 항목이 있는지 확인합니다.
+	 * @param keys - 확인할 키 목록 (기본: fileMap의 모든 키)
+	 * @returns 키 → 캐시 여부
+	 */
+	public async isCached(
+		keys: string[] = Object.keys(this.fileMap)
+	): Promise<Record<string, boolean>> {
+		const known = keys.filter((key) => this.getUrl(key) !== null);
+		const result = await this.requestCache("has", {
+			urls: known.map((key) => this.getUrl(key)!),
+		});
+		const cached: Record<string, boolean> = {};
+		keys.forEach((key) => (cached[key] = false));
+		known.forEach((key, i) => (cached[key] = result?.[i] ?? false));
+		return cached;
+	}
+
+	/**
+	 * 캐시 항목을 지웁니다.
+	 * @param keys - 지울 키 목록 (생략하면 데이터베이스 전체)
+	 */
+	public async clearCache(keys?: string[]): Promise<void> {
+		await this.requestCache("delete", {
+			urls: keys
+				?.map((key) => this.getUrl(key))
+				.filter((url): url is string => url !== null),
+		});
+	}
+
+	/**
+	 * 파일을 디코딩하지 않고 캐시에만 미리 받아 둡니다. (이미 캐시된 파일은 건너뜀)
+	 * 다음 loadAll/loadKeys는 네트워크 없이 캐시에서 불러옵니다.
+	 * @param keys - 미리 받을 키 목록 (기본: fileMap의 모든 키)
+	 * @param options - loadAll과 같은 옵션
+	 * @returns 키별 결과
+	 */
+	public prewarmCache(
+		keys: string[] = Object.keys(this.fileMap),
+		options: LoadOptions = {}
+	): Promise<LoadReport> {
+		const fileMap: FileMap = {};
+		for (const key of keys) {
+			if (key in this.fileMap) fileMap[key] = this.fileMap[key];
+		}
+		return this.loadFiles(fileMap, options, true);
+	}
+
+	/**
+	 * fileMap 항목의 절대 URL (직접 전달된 데이터이거나 없는 키면 null)
+	 */
+	private getUrl(key: string): string | null {
+		const source = this.fileMap[key];
+		return typeof source === "string" ? resolveUrl(source, this.baseUrl) : null;
+	}
+
+	/**
+	 * 기본값을 채운 캐시 설정 (캐시를 켜지 않았으면 기본 설정)
+	 */
+	private getCacheConfig(): Required<CacheOptions> {
+		return {
+			version: "",
+			format: "bytes",
+			quotaBytes: 256 * 1024 * 1024,
+			dbName: "quick-sonic-worklet-cache",
+			revalidate: false,
+			...this.cacheOptions,
+		};
+	}
+
+	/**
+	 * Worker에 캐시 작업을 요청하고 결과를 기다립니다.
+	 */
+	private requestCache(
+		op: "has" | "delete" | "putPcm",
+		payload: {
+			urls?: string[];
+			url?: string;
+			pcm?: { channels: Float32Array[]; sampleRate: number };
+		},
+		transfer: Transferable[] = []
+	): Promise<boolean[] | undefined> {
+		const requestId = ++this.nextCacheRequestId;
+		return new Promise((resolve, reject) => {
+			this.cacheRequests.set(requestId, { resolve, reject });
+			this.worker.postMessage(
+				{
+					type: "CACHE",
+					payload: {
+						requestId,
+						op,
+						cache: this.getCacheConfig(),
+						...payload,
+					},
+				},
+				transfer
+			);
+		});
+	}
+
+	/**
+	 * 채널 데이터로 AudioBuffer를 만듭니다.
+	 */
+	private createAudioBuffer(
+		channels: Float32Array[],
+		sampleRate: number
+	): AudioBuffer {
+		const audioBuffer = this.audioContext.createBuffer(
+			channels.length,
+			channels[0].length,
+			sampleRate
+		);
+		channels.forEach((channel, c) => audioBuffer.copyToChannel(channel, c));
+		return audioBuffer;
+	}
+
+	/**
+	 * 파일의 바이트 단위 다운로드 진행 상황을 반환합니다.
+	 * @param key - 파일 키
+	 * @returns 받은 바이트와 전체 크기(Content-Length, 모르면 null), 진행 중인 로드에 없는 키면 undefined
 	 */
-	public loadAll(): Promise<void> {
+	public getDownloadProgress(key: string): ByteProgress | undefined {
+		return this.downloadBytes.get(key);
+	}
+
+	/**
+	 * 키의 다운로드 우선순위를 설정합니다. (이후 loadAll/loadKeys부터 적용)
+	 * 메뉴 음악이나 UI 효과음처럼 먼저 필요한 파일에 높은 값을 지정합니다.
+	 * @param key - 파일 키
+	 * @param priority - 우선순위 (높을수록 먼저, 기본값: 0)
+	 */
+	public setPriority(key: string, priority: number): void {
+		this.priorities.set(key, priority);
+	}
+
+	/**
+	 * Worker에 다운로드 일괄 작업을 요청하고, 해당 작업의 메시지만 모아 결과를 만듭니다.
+	 */
+	private loadFiles(
+		fileMap: FileMap,
+		options: LoadOptions,
+		prewarm = false
+	): Promise<LoadReport> {
+		const { failFast = true, priorities, ...retry } = options;
+		const batchId = ++this.nextBatchId;
 		return new Promise((resolve, reject) => {
-			const fileCount = Object.keys(this.fileMap).length;
-			if (fileCount === 0) {
-				this.isWorkerDone = true;
-				resolve();
+			// 경로는 baseUrl 기준 절대 URL로 바꿔 보냅니다. (Blob URL Worker는 상대 경로를 해석하지 못함)
+			const sources: FileMap = {};
+			const report: LoadReport = {};
+			for (const [key, source] of Object.entries(fileMap)) {
+				const url =
+					typeof source === "string" ? resolveUrl(source, this.baseUrl) : "";
+				sources[key] = url || source;
+				report[key] = { url, status: "cancelled" };
+			}
+			if (Object.keys(report).length === 0) {
+				this.updateLoadProgress();
+				resolve(report);
 				return;
 			}
 
+			// 진행 중인 작업이 있으면 진행률과 완료 여부는 모든 작업을 합쳐 계산합니다.
+			if ([...this.batchProgress.values()].every((batch) => batch.done)) {
+				this.batchProgress.clear();
+				this.downloadBytes.clear();
+			}
+			// 대기 중인 파일도 바이트 진행률에 포함되도록 크기를 모르는 항목으로 미리 넣어 둡니다.
+			for (const key of Object.keys(report)) {
+				this.downloadBytes.set(key, { receivedBytes: 0, totalBytes: null });
+			}
+			this.batchProgress.set(batchId, {
+				keys: Object.keys(report),
+				loadedCount: 0,
+				total: Object.keys(report).length,
+				done: false,
+			});
+			this.updateLoadProgress();
+
 			this.worker.postMessage({
 				type: "LOAD_AUDIO",
 				payload: {
-					baseUrl: this.baseUrl,
-					fileMap: this.fileMap,
+					batchId,
+					fileMap: sources,
 					fetchOptions: this.fetchOptions,
+					cache:
+						this.cacheOptions || prewarm ? this.getCacheConfig() : undefined,
+					prewarm,
+					priorities: {
+						...Object.fromEntries(this.priorities),
+						...priorities,
+					},
+					...retry,
 				},
 			});
 			const onMessage = (e: MessageEvent) => {
 				const { type, payload } = e.data;
-				if (type === "DONE") {
-					this.worker.removeEventListener("message", onMessage);
-					resolve();
+				if (payload?.batchId !== batchId) return;
+				if (type === "LOADED") {
+					report[payload.key] = {
+						url: payload.url,
+						status: "loaded",
+						cached: payload.cached,
+					};
 				} else if (type === "ERROR") {
+					report[payload.key] = {
+						url: payload.url,
+						status: "failed",
+						message: payload.message,
+					};
+					if (failFast) {
+						// 나머지 다운로드가 계속 진행되지 않도록 이 일괄 작업을 취소합니다.
+						this.worker.removeEventListener("message", onMessage);
+						this.worker.postMessage({
+							type: "CANCEL",
+							payload: { batchId },
+						});
+						reject(new Error(payload.message));
+					}
+				} else if (type === "DONE") {
 					this.worker.removeEventListener("message", onMessage);
-					reject(payload.message);
+					if (failFast && payload.cancelled) {
+						reject(new DOMException("Load cancelled", "AbortError"));
+					} else {
+						resolve(report);
+					}
 				}
 			};
 			this.worker.addEventListener("message", onMessage);
 		});
 	}
 
+	/**
+	 * 일괄 작업들의 파일 수를 합쳐 진행률과 완료 여부를 갱신합니다.
+	 */
+	private updateLoadProgress(): void {
+		let loadedCount = 0;
+		let total = 0;
+		let done = true;
+		for (const batch of this.batchProgress.values()) {
+			loadedCount += batch.loadedCount;
+			total += batch.total;
+			if (!batch.done) done = false;
+		}
+		this.loadedCount = loadedCount;
+		this.totalCount = total;
+		this.loadingProgress = total > 0 ? loadedCount / total : 0;
+		this.isWorkerDone = done;
+	}
+
+	/**
+	 * 진행 중인 다운로드와 대기 중인 재시도를 모두 중단합니다.
+	 * 이미 받은 파일은 유지되며, 나머지는 LoadReport에 "cancelled"로 남습니다.
+	 */
+	public cancelLoad(): void {
+		this.worker.postMessage({ type: "CANCEL" });
+	}
+
 	/**
 	 * 다운로드한 오디오 데이터를 decodeAudioData()를 사용해 AudioBuffer로 디코딩합니다.
 	 * 디코딩에 실패하면 무음 버퍼(silent buffer)를 생성합니다.
@@ -136,23 +690,57 @@ export class AudioPreloader {
 			const p = this.audioContext
 				.decodeAudioData(arrayBuf.slice(0))
 				.then((audioBuf) => {
-					this.audioBuffers.set(key, audioBuf);
+					this.setAudioBuffer(key, audioBuf);
+					if (this.cacheOptions?.format === "pcm" && this.getUrl(key)) {
+						this.cachePcm(key, audioBuf);
+					}
 				})
 				.catch((err) => {
 					console.error(`[Decode fail] key=${key}`, err);
+					this.emit("decodeError", { key, error: err });
 					// 실패 시 무음 버퍼 생성
 					const silent = this.audioContext.createBuffer(
 						1,
 						this.audioContext.sampleRate,
 						this.audioContext.sampleRate
 					);
-					this.audioBuffers.set(key, silent);
+					this.setAudioBuffer(key, silent);
 				});
 			promises.push(p);
 		}
 		await Promise.all(promises);
 	}
 
+	/**
+	 * 키의 AudioBuffer를 교체합니다.
+	 * AudioWorklet에 등록된 이전 채널 데이터는 다음 재생 때 새 버퍼로 다시 등록됩니다.
+	 */
+	private setAudioBuffer(key: string, audioBuffer: AudioBuffer): void {
+		this.audioBuffers.set(key, audioBuffer);
+		this.registeredAudio.delete(key);
+	}
+
+	/**
+	 * 디코딩한 PCM을 캐시에 저장합니다. (PCM 캐시에서 읽은 키는 건너뜀, 실패해도 재생에는 영향 없음)
+	 */
+	private cachePcm(key: string, audioBuffer: AudioBuffer): void {
+		if (this.pcmCachedKeys.has(key)) return;
+		const channels: Float32Array[] = [];
+		for (let c = 0; c < audioBuffer.numberOfChannels; c++) {
+			channels.push(audioBuffer.getChannelData(c).slice(0));
+		}
+		this.requestCache(
+			"putPcm",
+			{
+				url: this.getUrl(key)!,
+				pcm: { channels, sampleRate: audioBuffer.sampleRate },
+			},
+			channels.map((channel) => channel.buffer)
+		)
+			.then(() => this.pcmCachedKeys.add(key))
+			.catch((err) => console.warn(`[Cache] PCM write fail: key=${key}`, err));
+	}
+
 	/**
 	 * AudioWorklet 모듈을 로드하고 AudioWorkletNode를 초기화합니다.
 	 * AudioWorkletNode는 AudioContext의 destination에 연결됩니다.
@@ -161,45 +749,239 @@ export class AudioPreloader {
 	 */
 	public async initAudioWorklet(moduleUrl: string) {
 		await this.audioContext.audioWorklet.addModule(moduleUrl);
+		this.workletModuleUrl = moduleUrl;
+		// 출력 채널 수를 destination에 맞춰야 스테레오/멀티채널이 모노로 축소되지 않습니다.
 		this.audioWorkletNode = new AudioWorkletNode(
 			this.audioContext,
-			"audio-worklet-processor"
+			"audio-worklet-processor",
+			{
+				numberOfInputs: 0,
+				numberOfOutputs: 1,
+				outputChannelCount: [this.audioContext.destination.channelCount],
+			}
 		);
 		this.audioWorkletNode.connect(this.audioContext.destination);
+		this.registeredAudio.clear();
 
-		this.audioWorkletNode.port.onmessage = (event) => {
+		this.audioWorkletNode.port.onmessage = (
+			event: MessageEvent<AudioProcessorEventMessage>
+		) => {
 			const { type, key, data } = event.data;
+			const voiceId = event.data.voiceId ?? key ?? "";
 			if (type === "latencyReport") {
+				const report = data as { latency: number } | undefined;
 				console.log(
 					`[Latency Report] Track=${key}, Latency=${
-						data?.latency ?? "Unknown"
+						report?.latency ?? "Unknown"
 					}`
 				);
 			} else if (type === "visualizerData") {
-				// 비주얼라이저 데이터 수신: 등록된 콜백이 있으면 호출합니다.
-				if (this.visualizerCallback) {
-					this.visualizerCallback(data);
+				// 비주얼라이저 데이터 수신: 분석 대상 key에 등록된 콜백을 호출합니다.
+				const analysisKey = key ?? "";
+				const callback = this.visualizerCallbacks.get(analysisKey);
+				if (callback) {
+					callback(data as number[], analysisKey);
+				}
+			} else if (
+				(type === "started" ||
+					type === "ended" ||
+					type === "looped" ||
+					type === "stolen" ||
+					type === "rejected") &&
+				key !== undefined
+			) {
+				// 트랙 상태 변화를 이벤트로 전달합니다.
+				if (
+					type === "ended" &&
+					(this.activePlays.get(key)?.voiceId ?? key) === voiceId
+				) {
+					this.activePlays.delete(key);
+				}
+				if (type === "rejected" || (type === "ended" && voiceId !== key)) {
+					// 해제된 추가 보이스의 보고는 남기지 않습니다.
+					this.trackPositions.delete(voiceId);
+					this.gainReductions.delete(voiceId);
+				}
+				this.emit(type, { key, voiceId, ...(data as TrackLifecycleData) });
+			} else if (type === "gainReduction" && key !== undefined) {
+				// 컴프레서 게인 리덕션 수신 (GR 미터용, 키와 보이스 ID 모두로 저장)
+				const { gainReductionDb } = data as GainReductionData;
+				this.gainReductions.set(key, gainReductionDb);
+				this.gainReductions.set(voiceId, gainReductionDb);
+				if (this.gainReductionCallback) {
+					this.gainReductionCallback(key, gainReductionDb, voiceId);
+				}
+			} else if (type === "meter" && key !== undefined) {
+				// 레벨/라우드니스 미터 수신
+				const meter = data as MeterData;
+				this.meterReadings.set(key, meter);
+				if (this.meterCallback) {
+					this.meterCallback(key, meter);
+				}
+			} else if (type === "position" && key !== undefined) {
+				// 재생 위치 수신: 마지막 위치를 키와 보이스 ID로 저장하고 콜백을 호출합니다.
+				const position = data as TrackPosition;
+				this.trackPositions.set(key, position);
+				this.trackPositions.set(voiceId, position);
+				if (this.positionCallback) {
+					this.positionCallback(key, position, voiceId);
 				}
 			}
 		};
 	}
 
+	/**
+	 * 트랙 상태 및 오류 이벤트 리스너를 등록합니다.
+	 * - started: 트랙 재생 시작
+	 * - ended: 루프가 아닌 트랙이 끝까지 재생됨
+	 * - looped: 루프 트랙이 처음으로 되돌아감
+	 * - loadError: Worker 다운로드 실패
+	 * - loadWarning: 다운로드 재시도, 캐시 읽기/쓰기 실패 (다운로드는 계속됨)
+	 * - decodeError: decodeAudioData 실패 (무음 버퍼로 대체됨)
+	 */
+	public addEventListener<K extends keyof AudioPreloaderEventMap>(
+		type: K,
+		listener: (event: AudioPreloaderEventMap[K]) => void,
+		options?: boolean | AddEventListenerOptions
+	): void;
+	public addEventListener(
+		type: string,
+		listener: EventListenerOrEventListenerObject | null,
+		options?: boolean | AddEventListenerOptions
+	): void;
+	public addEventListener(
+		type: string,
+		listener: EventListenerOrEventListenerObject | null,
+		options?: boolean | AddEventListenerOptions
+	): void {
+		super.addEventListener(type, listener, options);
+	}
+
+	/**
+	 * addEventListener로 등록한 리스너를 제거합니다.
+	 */
+	public removeEventListener<K extends keyof AudioPreloaderEventMap>(
+		type: K,
+		listener: (event: AudioPreloaderEventMap[K]) => void,
+		options?: boolean | EventListenerOptions
+	): void;
+	public removeEventListener(
+		type: string,
+		listener: EventListenerOrEventListenerObject | null,
+		options?: boolean | EventListenerOptions
+	): void;
+	public removeEventListener(
+		type: string,
+		listener: EventListenerOrEventListenerObject | null,
+		options?: boolean | EventListenerOptions
+	): void {
+		super.removeEventListener(type, listener, options);
+	}
+
+	/**
+	 * 타입이 지정된 CustomEvent를 발생시킵니다.
+	 */
+	private emit<K extends keyof AudioPreloaderEventMap>(
+		type: K,
+		detail: AudioPreloaderEventMap[K]["detail"]
+	): void {
+		this.dispatchEvent(new CustomEvent(type, { detail }));
+	}
+
 	/**
 	 * 비주얼라이저 데이터를 실시간으로 수신할 콜백 함수를 등록합니다.
-	 * @param callback - 각 비주얼라이저 업데이트마다 호출되는 콜백 함수 (대역별 레벨 배열을 인자로 받음)
+	 * key 없이 호출하면 마스터 출력의 분석 결과를 수신합니다.
+	 * @param key - 분석 대상 트랙 키 (빈 문자열이면 마스터 출력)
+	 * @param callback - 각 비주얼라이저 업데이트마다 호출되는 콜백 함수 (대역별 레벨 배열과 key를 인자로 받음), null이면 구독 해제
+	 */
+	public setVisualizerDataHandler(callback: VisualizerDataCallback): void;
+	public setVisualizerDataHandler(
+		key: string,
+		callback: VisualizerDataCallback | null
+	): void;
+	public setVisualizerDataHandler(
+		keyOrCallback: string | VisualizerDataCallback,
+		callback?: VisualizerDataCallback | null
+	): void {
+		const key = typeof keyOrCallback === "string" ? keyOrCallback : "";
+		const handler =
+			typeof keyOrCallback === "string" ? callback : keyOrCallback;
+		if (handler) {
+			this.visualizerCallbacks.set(key, handler);
+		} else {
+			this.visualizerCallbacks.delete(key);
+		}
+	}
+
+	/**
+	 * 트랙 재생 위치를 주기적으로 수신할 콜백 함수를 등록합니다.
+	 * 재생 중인 트랙마다 보고 주기(setPositionReportInterval)에 맞춰 호출되며,
+	 * 일시 정지/재개/탐색/정지/재생 종료 시에도 즉시 호출됩니다.
+	 * @param callback - 트랙 키, 재생 위치 정보, 보이스 ID를 인자로 받는 콜백 함수
+	 */
+	public setPositionHandler(
+		callback: (key: string, position: TrackPosition, voiceId: string) => void
+	): void {
+		this.positionCallback = callback;
+	}
+
+	/**
+	 * AudioWorkletProcessor의 재생 위치 보고 주기를 설정합니다.
+	 * @param ms - 보고 주기 (밀리초, 0이면 주기적 보고 비활성화, 기본 100ms)
 	 */
-	public setVisualizerDataHandler(callback: (data: number[]) => void): void {
-		this.visualizerCallback = callback;
+	public setPositionReportInterval(ms: number): void {
+		this.postTypedMessage({
+			type: "setPositionReportInterval",
+			key: "",
+			data: ms,
+		});
+	}
+
+	/**
+	 * 마지막으로 보고된 트랙의 재생 위치(초)를 반환합니다.
+	 * 재생 중이면 보고 이후 경과 시간을 배속에 맞춰 보간합니다.
+	 * @param key - 트랙을 식별하는 고유 키 또는 보이스 ID (키면 마지막으로 보고된 보이스)
+	 * @returns 재생 위치 (초), 보고된 적이 없으면 0
+	 */
+	public getPosition(key: string): number {
+		const report = this.trackPositions.get(key);
+		if (!report) return 0;
+		if (!report.isPlaying) return report.position;
+		const elapsed = Math.max(
+			0,
+			this.audioContext.currentTime - report.contextTime
+		);
+		return Math.min(
+			report.duration,
+			report.position + elapsed * report.playbackRate * report.tempo
+		);
 	}
 
 	/**
 	 * 지정된 키의 오디오 트랙을 재생합니다.
 	 * 재생 시 loop 여부와 playbackRate(재생 배속)를 지정할 수 있습니다.
+	 * loopStart/loopEnd/loopCount로 버퍼 일부만 정해진 횟수만큼 반복할 수 있습니다. (setLoopRegion 참고)
+	 * fadeInMs/fadeCurve로 페이드 인하고, loopCrossfadeMs로 루프 경계를 크로스페이드할 수 있습니다.
+	 * tempo/pitch/cents를 지정하면 피치와 템포를 서로 독립적으로 바꿉니다. (adjustTimeStretch 참고)
+	 * 옵션 객체의 when을 지정하면 해당 AudioContext 시각의 샘플 프레임에 정확히 시작합니다.
+	 * when 없이 즉시 재생하면 해당 트랙에 예약된 재생/정지는 취소됩니다.
+	 * setPolyphony로 동시 재생 수를 2 이상으로 설정한 키는 재생할 때마다 새 보이스가 겹쳐 재생됩니다.
 	 * @param key - 오디오 트랙을 식별하는 고유 키
-	 * @param loop - 반복 재생 여부 (기본값: false)
-	 * @param playbackRate - 재생 배속 (기본값: 1)
+	 * @param options - 재생 옵션 (loop, 루프 구간, playbackRate, tempo, pitch, cents, when, 페이드) 또는 반복 재생 여부 (기본값: false)
+	 * @param playbackRate - 재생 배속 (기본값: 1, options가 boolean일 때만 사용)
+	 * @returns 보이스 ID (adjust*, stopAudio 등에 키 대신 넘기면 이 보이스에만 적용), 재생하지 못하면 undefined
 	 */
-	public playAudio(key: string, loop = false, playbackRate = 1) {
+	public playAudio(
+		key: string,
+		options: PlayOptions | boolean = false,
+		playbackRate = 1
+	): string | undefined {
+		const {
+			loop = false,
+			playbackRate: rate = playbackRate,
+			when,
+			...rest
+		} = typeof options === "boolean" ? { loop: options } : options;
 		if (!this.audioWorkletNode) {
 			console.error("AudioWorkletNode not initialized.");
 			return;
@@ -213,28 +995,138 @@ export class AudioPreloader {
 			this.audioContext.resume();
 		}
 
-		// AudioBuffer의 첫 채널 데이터를 가져와 Float32Array로 변환합니다.
-		const float32Data = audioBuffer.getChannelData(0).slice(0);
+		// 채널 데이터는 처음 재생할 때 한 번만 등록하고, 이후에는 키로만 참조합니다.
+		if (!this.registeredAudio.has(key)) {
+			this.registerAudio(key, audioBuffer);
+		}
+
+		// 동시 재생을 허용한 키는 재생마다 새 보이스 ID를 발급합니다. (기본 보이스의 ID는 키)
+		const voiceId =
+			(this.polyphonyLimits.get(key) ?? 1) > 1
+				? `${key}#${++this.voiceCounter}`
+				: key;
 
 		// 재생 배속(playbackRate) 기능이 추가되었으므로 데이터를 함께 전송합니다.
-		this.postTypedMessage<AudioProcessorPostMessage>({
+		this.postTypedMessage({
 			type: "play",
 			key,
-			data: { buffer: float32Data, loop, playbackRate },
+			data: {
+				...rest,
+				loop,
+				playbackRate: rate,
+				startFrame: this.toFrame(when),
+				voiceId,
+			},
 		});
+		return voiceId;
 	}
 
 	/**
-	 * 재생 중인 트랙의 배속(playback rate)을 동적으로 조절합니다.
+	 * AudioBuffer의 채널 데이터를 AudioWorklet에 등록합니다. (clearAudio로 해제)
+	 * cross-origin isolated 환경이면 SharedArrayBuffer로 공유하고,
+	 * 아니면 복사본의 ArrayBuffer를 전송(transfer)해 구조화 복제를 피합니다.
+	 */
+	private registerAudio(key: string, audioBuffer: AudioBuffer): void {
+		const shared =
+			typeof SharedArrayBuffer !== "undefined" &&
+			globalThis.crossOriginIsolated === true;
+		const channels: Float32Array[] = [];
+		for (let c = 0; c < audioBuffer.numberOfChannels; c++) {
+			const source = audioBuffer.getChannelData(c);
+			const channel = shared
+				? new Float32Array(new SharedArrayBuffer(source.byteLength))
+				: new Float32Array(source.length);
+			channel.set(source);
+			channels.push(channel);
+		}
+		this.postTypedMessage(
+			{
+				type: "registerAudio",
+				key,
+				data: { channels, sampleRate: audioBuffer.sampleRate },
+			},
+			shared ? undefined : { transfer: channels.map((c) => c.buffer) }
+		);
+		this.registeredAudio.add(key);
+	}
+
+	/**
+	 * 키의 최대 동시 재생 수(폴리포니)와 보이스 스틸링 정책을 설정합니다.
+	 * 2 이상이면 playAudio가 재생마다 새 보이스를 만들어 겹쳐 재생합니다. (총소리, 발소리 등)
+	 * 최대치에서 새로 재생하면 정책에 따라 보이스를 짧게 페이드 아웃해 빼앗거나('stolen' 이벤트) 새 재생을 거부합니다('rejected' 이벤트).
+	 * - "oldest": 가장 먼저 시작한 보이스를 빼앗음 (기본값)
+	 * - "quietest": 현재 가장 작은 보이스를 빼앗음
+	 * - "reject": 새 재생을 거부
 	 * @param key - 트랙을 식별하는 고유 키
+	 * @param maxVoices - 최대 동시 재생 수 (0 이하면 제한 없이 재생마다 같은 보이스를 다시 시작하는 기본 동작)
+	 * @param steal - 보이스 스틸링 정책
+	 */
+	public setPolyphony(
+		key: string,
+		maxVoices: number,
+		steal: VoiceStealPolicy = "oldest"
+	): void {
+		if (maxVoices > 0) {
+			this.polyphonyLimits.set(key, maxVoices);
+		} else {
+			this.polyphonyLimits.delete(key);
+		}
+		this.postTypedMessage({
+			type: "setPolyphony",
+			key,
+			data: { maxVoices, steal },
+		});
+	}
+
+	/**
+	 * 재생 중인 트랙의 배속(playback rate)을 동적으로 조절합니다.
+	 * @param key - 트랙을 식별하는 고유 키 또는 보이스 ID
 	 * @param rate - 적용할 재생 배속 (예: 1은 기본, 2는 2배속, 0.5는 반속)
 	 */
 	public adjustPlaybackRate(key: string, rate: number) {
 		this.postTypedMessage({ type: "adjustPlaybackRate", key, data: rate });
 	}
 
+	/**
+	 * 트랙 데이터를 읽을 때의 보간 품질을 설정합니다.
+	 * 배속이 1이 아니거나 버퍼 샘플레이트가 AudioContext와 다를 때 음질 차이가 납니다.
+	 * - "linear": 가장 가벼움 (기본값)
+	 * - "cubic": 4점 큐빅 에르미트
+	 * - "sinc": 윈도우드 sinc, 배속에 맞춰 대역을 제한해 앨리어싱을 줄임 (가장 무거움)
+	 * @param quality - 보간 품질 (트랙 키와 함께 null을 지정하면 전역 설정을 따름)
+	 * @param key - 적용할 트랙 키 (생략하면 전역 기본값)
+	 */
+	public setInterpolation(
+		quality: InterpolationQuality | null,
+		key: string = ""
+	): void {
+		this.postTypedMessage({ type: "setInterpolation", key, data: quality });
+	}
+
+	/**
+	 * 재생 중인 트랙의 루프 구간, 반복 횟수, 루프 여부를 바꿉니다. (지정한 항목만 변경)
+	 * 예: 인트로 이후 구간만 반복하다가 loop: false로 루프를 빠져나와 아웃트로까지 재생
+	 * @param key - 트랙을 식별하는 고유 키 또는 보이스 ID
+	 * @param region - loopStart/loopEnd (loopUnit: "seconds" | "samples"), loopCount, loop
+	 */
+	public setLoopRegion(key: string, region: LoopRegionMessageData): void {
+		this.postTypedMessage({ type: "setLoopRegion", key, data: region });
+	}
+
+	/**
+	 * 재생 중인 트랙의 템포와 피치를 서로 독립적으로 조절합니다. (WSOLA 타임 스트레치)
+	 * 연습용 감속은 tempo만, 키 변경은 pitch/cents만 바꾸면 됩니다.
+	 * playbackRate와 함께 쓰면 두 효과가 곱해집니다.
+	 * @param key - 트랙을 식별하는 고유 키 또는 보이스 ID
+	 * @param settings - 템포 배율(0.25 ~ 4), 피치(반음, -24 ~ 24), 센트(-100 ~ 100) - 지정한 항목만 변경
+	 */
+	public adjustTimeStretch(key: string, settings: TimeStretchSettings) {
+		this.postTypedMessage({ type: "adjustTimeStretch", key, data: settings });
+	}
+
 	/**
 	 * 재생 중인 트랙의 노멀라이즈 기능을 활성화 또는 비활성화합니다.
+	 * 블록마다 피크를 1로 맞추는 레거시 동작으로, 클리핑 방지에는 setMasterLimiter를 사용하세요.
 	 * @param key - 트랙을 식별하는 고유 키
 	 * @param flag - true: 활성화, false: 비활성화
 	 */
@@ -262,35 +1154,79 @@ export class AudioPreloader {
 
 	/**
 	 * 비주얼라이저 대역(VisualizerBand[])을 설정합니다.
-	 * @param key - 트랙과 관계없이 전역적으로 설정 (빈 문자열을 전달해도 됨)
-	 * @param bands - VisualizerBand 객체 배열 (각 객체는 startFrequency와 endFrequency 속성을 가짐)
+	 * 트랙 키를 지정하면 마스터와 별도로 해당 트랙의 처리된 출력을 분석하며, 빈 배열을 지정하면 트랙 분석을 중단합니다.
+	 * @param key - 분석할 트랙 키 (빈 문자열이면 마스터 출력)
+	 * @param bands - VisualizerBand 객체 배열 (각 객체는 startFrequency와 endFrequency 속성을 가짐),
+	 * 또는 20Hz ~ 20kHz를 로그 간격으로 나눌 대역 수
+	 */
+	public setVisualizerBands(key: string, bands: VisualizerBand[] | number) {
+		const data =
+			typeof bands === "number" ? createLogVisualizerBands(bands) : bands;
+		this.postTypedMessage({ type: "setVisualizerBands", key, data });
+	}
+
+	/**
+	 * 비주얼라이저 분석 방식(윈도우 함수, 대역별 스무딩, 출력 단위)을 설정합니다.
+	 * @param settings - 비주얼라이저 설정 (window, attackMs, decayMs, scale, minDb)
 	 */
-	public setVisualizerBands(key: string, bands: VisualizerBand[]) {
-		this.postTypedMessage({ type: "setVisualizerBands", key, data: bands });
+	public setVisualizerSettings(settings: VisualizerSettings): void {
+		this.postTypedMessage({
+			type: "setVisualizerSettings",
+			key: "",
+			data: settings,
+		});
 	}
 
 	/**
 	 * 재생 중인 트랙의 볼륨을 조절합니다.
 	 * (개별 트랙 볼륨 조절)
-	 * @param key - 트랙을 식별하는 고유 키
+	 * @param key - 트랙을 식별하는 고유 키 또는 보이스 ID
 	 * @param volume - 적용할 볼륨 값 (0.0 ~ 1.0)
 	 */
 	public adjustVolume(key: string, volume: number) {
 		this.postTypedMessage({ type: "adjustVolume", key, data: volume });
 	}
 
+	/**
+	 * 재생 중인 트랙의 패닝과 스테레오 폭을 조절합니다.
+	 * (스테레오 이상 출력에서만 적용)
+	 * @param key - 트랙을 식별하는 고유 키 또는 보이스 ID
+	 * @param settings - 공간 설정 객체 (pan: -1 ~ 1, width: 0 ~ 2)
+	 */
+	public adjustSpatial(key: string, settings: SpatialSettings) {
+		this.postTypedMessage({ type: "adjustSpatial", key, data: settings });
+	}
+
 	/**
 	 * 재생 중인 트랙에 적용할 이퀄라이저(EQ) 설정을 조절합니다.
-	 * @param key - 트랙을 식별하는 고유 키
-	 * @param bandSettings - EQ 밴드 설정 배열 (각 밴드의 주파수와 게인 값 포함)
+	 * @param key - 트랙을 식별하는 고유 키 또는 보이스 ID
+	 * @param bandSettings - EQ 밴드 설정 배열 (각 밴드의 주파수, 게인, 타입, Q 값 포함)
 	 */
 	public adjustEQ(key: string, bandSettings: EQBand[]) {
 		this.postTypedMessage({ type: "adjustEQ", key, data: bandSettings });
 	}
 
+	/**
+	 * EQ 밴드 설정의 전체 주파수 응답을 계산합니다. (EQ 곡선 그리기용)
+	 * AudioWorklet과 같은 biquad 계수를 사용하며, AudioContext의 샘플레이트를 기준으로 합니다.
+	 * @param bandSettings - EQ 밴드 설정 배열
+	 * @param frequencies - 응답을 계산할 주파수 목록 (Hz)
+	 * @returns 주파수별 게인 (dB)
+	 */
+	public getEQResponse(
+		bandSettings: EQBand[],
+		frequencies: ArrayLike<number>
+	): Float32Array {
+		return getEQFrequencyResponse(
+			bandSettings,
+			frequencies,
+			this.audioContext.sampleRate
+		);
+	}
+
 	/**
 	 * 재생 중인 트랙의 모듈레이션 설정을 조절합니다.
-	 * @param key - 트랙을 식별하는 고유 키
+	 * @param key - 트랙을 식별하는 고유 키 또는 보이스 ID
 	 * @param settings - 모듈레이션 설정 (예: 타입, 깊이(depth), 속도(rate) 등)
 	 */
 	public adjustModulation(key: string, settings: ModulationSettings) {
@@ -303,7 +1239,7 @@ export class AudioPreloader {
 
 	/**
 	 * 재생 중인 트랙에 적용할 이펙트(Delay, Reverb, Echo 등) 설정을 조절합니다.
-	 * @param key - 트랙을 식별하는 고유 키
+	 * @param key - 트랙을 식별하는 고유 키 또는 보이스 ID
 	 * @param settings - 이펙트 설정 객체 (delay, reverb, echo, loop 등의 속성을 포함)
 	 */
 	public adjustEffects(key: string, settings: EffectsSettings) {
@@ -312,7 +1248,7 @@ export class AudioPreloader {
 
 	/**
 	 * 재생 중인 트랙에 적용할 드라이브(디스토션, 오버드라이브, 퍼즈 등) 설정을 조절합니다.
-	 * @param key - 트랙을 식별하는 고유 키
+	 * @param key - 트랙을 식별하는 고유 키 또는 보이스 ID
 	 * @param settings - 드라이브 설정 객체 (distortion, overdrive, fuzz 등의 속성을 포함)
 	 */
 	public adjustDrive(key: string, settings: DriveSettings) {
@@ -321,33 +1257,225 @@ export class AudioPreloader {
 
 	/**
 	 * 재생 중인 트랙에 적용할 다이나믹스(컴프레션 등) 설정을 조절합니다.
-	 * @param key - 트랙을 식별하는 고유 키
-	 * @param settings - 다이나믹스 설정 객체 (threshold, ratio 등의 속성을 포함)
+	 * @param key - 트랙을 식별하는 고유 키 또는 보이스 ID
+	 * @param settings - 다이나믹스 설정 객체 (threshold, ratio, attackMs, releaseMs, kneeDb, makeupDb, lookaheadMs)
 	 */
 	public adjustDynamics(key: string, settings: DynamicsSettings) {
 		this.postTypedMessage({ type: "adjustDynamics", key, data: settings });
 	}
 
 	/**
-	 * 재생 중인 특정 트랙을 정지시킵니다.
-	 * @param key - 정지시킬 트랙의 고유 키
+	 * 트랙 파라미터를 지정한 시각까지 목표 값으로 변화시킵니다. (AudioParam의 ramp와 유사)
+	 * 이전 램프가 있으면 그 끝에서, 없으면 현재 시각/값에서 시작합니다.
+	 * adjust* 호출 시 같은 그룹의 램프는 취소됩니다.
+	 * @param key - 트랙을 식별하는 고유 키 또는 보이스 ID
+	 * @param path - 파라미터 경로 (예: "volume", "eq.0.gain", "effects.reverb")
+	 * @param value - 목표 값
+	 * @param endTime - 목표 값에 도달할 AudioContext 시각 (초)
+	 * @param curve - 변화 곡선 (기본값: "linear")
+	 */
+	public rampParameter(
+		key: string,
+		path: AutomationPath,
+		value: number,
+		endTime: number,
+		curve: AutomationCurve = "linear"
+	): void {
+		const endFrame = this.toFrame(endTime);
+		if (endFrame === undefined) {
+			console.error("rampParameter endTime must be a finite number.");
+			return;
+		}
+		this.postTypedMessage({
+			type: "rampParameter",
+			key,
+			data: { path, value, endFrame, curve },
+		});
+	}
+
+	/**
+	 * 예약된 파라미터 램프를 취소합니다. 파라미터는 취소 시점의 값을 유지합니다.
+	 * @param key - 트랙을 식별하는 고유 키 또는 보이스 ID
+	 * @param path - 취소할 파라미터 경로 (생략 시 트랙의 모든 램프 취소)
+	 */
+	public cancelParameterRamps(key: string, path?: AutomationPath): void {
+		this.postTypedMessage({ type: "cancelParameterRamps", key, data: { path } });
+	}
+
+	/**
+	 * adjust* 호출 시 숫자 파라미터가 새 값으로 변하는 스무딩 시간을 설정합니다.
+	 * (zipper noise / 클릭 방지용, 모든 트랙에 적용)
+	 * @param ms - 스무딩 시간 (밀리초, 기본 20ms, 0이면 즉시 적용)
+	 */
+	public setParameterSmoothing(ms: number): void {
+		this.postTypedMessage({
+			type: "setParameterSmoothing",
+			key: "",
+			data: ms,
+		});
+	}
+
+	/**
+	 * 컴프레서 게인 리덕션을 수신할 콜백 함수를 등록합니다. (GR 미터용)
+	 * 재생 중인 트랙마다 재생 위치 보고와 같은 주기로 호출됩니다.
+	 * 마스터 리미터가 켜져 있으면 key가 빈 문자열('')인 리미터 게인 리덕션도 함께 보고됩니다.
+	 * @param callback - 트랙 키, 보고 주기 동안의 최대 게인 리덕션(dB, 0 이상), 보이스 ID를 인자로 받는 콜백 함수
+	 */
+	public setGainReductionHandler(
+		callback: (key: string, gainReductionDb: number, voiceId: string) => void
+	): void {
+		this.gainReductionCallback = callback;
+	}
+
+	/**
+	 * 마지막으로 보고된 트랙의 컴프레서 게인 리덕션(dB)을 반환합니다.
+	 * @param key - 트랙을 식별하는 고유 키 (빈 문자열이면 마스터 리미터)
+	 */
+	public getGainReduction(key: string): number {
+		return this.gainReductions.get(key) ?? 0;
+	}
+
+	/**
+	 * 레벨/라우드니스 미터를 수신할 콜백 함수를 등록하고 측정을 시작합니다.
+	 * 재생 중인 트랙(처리된 출력)과 마스터 출력(key: '')마다 보고 주기에 맞춰 호출됩니다.
+	 * @param callback - 트랙 키와 측정값(피크, RMS, 트루 피크, LUFS)을 인자로 받는 콜백 함수, null이면 측정 중단
+	 * @param intervalMs - 보고 주기 (밀리초, 기본 100ms)
+	 */
+	public setMeterHandler(
+		callback: ((key: string, meter: MeterData) => void) | null,
+		intervalMs: number = 100
+	): void {
+		this.meterCallback = callback;
+		if (!callback) {
+			this.meterReadings.clear();
+		}
+		this.postTypedMessage({
+			type: "setMeterInterval",
+			key: "",
+			data: callback ? Math.max(0, intervalMs) : 0,
+		});
+	}
+
+	/**
+	 * 마지막으로 보고된 미터 측정값을 반환합니다.
+	 * @param key - 트랙을 식별하는 고유 키 (빈 문자열이면 마스터 출력)
+	 * @returns 측정값, 보고된 적이 없으면 undefined
+	 */
+	public getMeter(key: string): MeterData | undefined {
+		return this.meterReadings.get(key);
+	}
+
+	/**
+	 * 미터의 누적 측정값(통합 라우드니스 등)을 초기화합니다.
+	 * @param key - 초기화할 트랙 키 (빈 문자열이면 마스터 출력, 생략하면 전체)
 	 */
-	public stopAudio(key: string): void {
-		this.postTypedMessage({ type: "stop", key, data: null });
+	public resetMeters(key?: string): void {
+		this.postTypedMessage({
+			type: "resetMeters",
+			key: key ?? "",
+			data: key === undefined,
+		});
+	}
+
+	/**
+	 * 재생 중인 특정 트랙을 정지시키고 재생 위치를 처음으로 되돌립니다.
+	 * 즉시 정지하면 해당 트랙에 예약된 재생/정지도 함께 취소됩니다.
+	 * fadeOutMs를 지정하면 정지 시점부터 페이드 아웃한 뒤 정지합니다.
+	 * 키를 지정하면 그 키의 모든 보이스를, 보이스 ID를 지정하면 해당 보이스만 정지합니다.
+	 * @param key - 정지시킬 트랙의 고유 키 또는 보이스 ID
+	 * @param options - 정지 옵션 (when: 정지할 AudioContext 시각, fadeOutMs, fadeCurve)
+	 */
+	public stopAudio(key: string, options: StopOptions = {}): void {
+		const { when, fadeOutMs, fadeCurve } = options;
+		const stopFrame = this.toFrame(when);
+		this.postTypedMessage({
+			type: "stop",
+			key,
+			data:
+				stopFrame === undefined && !fadeOutMs
+					? null
+					: { stopFrame, fadeOutMs, fadeCurve },
+		});
+	}
+
+	/**
+	 * 재생 중인 트랙을 페이드 아웃하면서 다른 트랙을 페이드 인합니다. (배경 음악 전환 등)
+	 * 기본 곡선은 전체 음량이 일정하게 유지되는 "equalPower"입니다.
+	 * @param fromKey - 페이드 아웃 후 정지할 트랙 키
+	 * @param toKey - 페이드 인하며 재생할 트랙 키
+	 * @param durationMs - 크로스페이드 시간 (ms)
+	 * @param options - toKey의 재생 옵션 (when을 지정하면 두 트랙 모두 해당 시각에 시작)
+	 */
+	public crossfade(
+		fromKey: string,
+		toKey: string,
+		durationMs: number,
+		options: PlayOptions = {}
+	): void {
+		const fadeCurve = options.fadeCurve ?? "equalPower";
+		this.stopAudio(fromKey, {
+			when: options.when,
+			fadeOutMs: durationMs,
+			fadeCurve,
+		});
+		this.playAudio(toKey, { ...options, fadeInMs: durationMs, fadeCurve });
+	}
+
+	/**
+	 * 재생 중인 트랙을 현재 위치에서 일시 정지합니다.
+	 * @param key - 일시 정지할 트랙의 고유 키 또는 보이스 ID
+	 */
+	public pauseAudio(key: string): void {
+		this.postTypedMessage({ type: "pause", key, data: null });
+	}
+
+	/**
+	 * 일시 정지된 트랙을 멈춘 위치부터 다시 재생합니다.
+	 * @param key - 재개할 트랙의 고유 키 또는 보이스 ID
+	 */
+	public resumeAudio(key: string): void {
+		if (this.audioContext.state === "suspended") {
+			this.audioContext.resume();
+		}
+		this.postTypedMessage({ type: "resume", key, data: null });
+	}
+
+	/**
+	 * 트랙의 재생 위치를 이동합니다. (재생 중/일시 정지 상태 모두 가능)
+	 * @param key - 트랙을 식별하는 고유 키 또는 보이스 ID
+	 * @param seconds - 이동할 위치 (초 단위, 트랙 길이 내로 제한)
+	 */
+	public seekAudio(key: string, seconds: number): void {
+		this.postTypedMessage({ type: "seek", key, data: seconds });
 	}
 
 	/**
-	 * 특정 트랙의 데이터를 메모리에서 제거합니다.
+	 * 특정 트랙을 AudioWorklet에서 제거합니다.
 	 * (예: 재생 종료 후 리소스 정리)
+	 * 기본적으로 AudioWorklet에 등록된 채널 데이터만 해제하고, 메인 스레드의 다운로드 데이터와 AudioBuffer는 유지하므로
+	 * 다시 재생하면 AudioBuffer에서 다시 등록합니다.
 	 * @param key - 제거할 트랙의 고유 키
+	 * @param releaseData - true면 메인 스레드의 다운로드 데이터와 AudioBuffer도 해제 (다시 재생하려면 다시 로드해야 함)
 	 */
-	public clearAudio(key: string): void {
+	public clearAudio(key: string, releaseData: boolean = false): void {
+		this.registeredAudio.delete(key);
+		if (releaseData) {
+			this.audioDataMap.delete(key);
+			this.audioBuffers.delete(key);
+			this.downloadBytes.delete(key);
+			this.pcmCachedKeys.delete(key);
+		}
+		for (const map of [this.trackPositions, this.gainReductions]) {
+			for (const id of map.keys()) {
+				if (id === key || id.startsWith(`${key}#`)) map.delete(id);
+			}
+		}
+		this.meterReadings.delete(key);
 		this.postTypedMessage({ type: "clear", key, data: null });
 	}
 
 	/**
 	 * 전체(마스터) 볼륨을 조절합니다.
-	 * AudioWorkletProcessor에서 마스터 볼륨 조절을 지원하는 경우 사용합니다.
 	 * @param volume - 0.0 ~ 1.0 사이의 값
 	 */
 	public setMasterVolume(volume: number): void {
@@ -360,8 +1488,8 @@ export class AudioPreloader {
 	}
 
 	/**
-	 * 로우패스 필터(low-pass filter) 설정을 적용합니다.
-	 * AudioWorkletProcessor에서 로우패스 필터 처리를 지원하는 경우 사용합니다.
+	 * 마스터 출력에 레조넌트 로우패스 필터(low-pass filter) 설정을 적용합니다.
+	 * 컷오프를 나이퀴스트 주파수(sampleRate / 2) 이상으로 지정하면 필터가 해제됩니다.
 	 * @param cutoff - 컷오프 주파수 (Hz)
 	 * @param Q - 필터의 Q 값 (품질 계수)
 	 */
@@ -374,9 +1502,24 @@ export class AudioPreloader {
 		});
 	}
 
+	/**
+	 * 마스터 버스 브릭월 리미터를 설정합니다.
+	 * 트랙 믹스, 마스터 볼륨, 로우패스 필터 이후에 적용되어 합산된 출력이 ceiling을 넘지 않도록 합니다.
+	 * 룩어헤드만큼 출력이 지연됩니다.
+	 * @param settings - 리미터 설정 (enabled, ceilingDb, lookaheadMs, releaseMs)
+	 */
+	public setMasterLimiter(settings: LimiterSettings): void {
+		// key가 빈 문자열('')이면 전역 설정으로 처리하도록 합니다.
+		this.postTypedMessage({
+			type: "setLimiter",
+			key: "",
+			data: settings,
+		});
+	}
+
 	/**
 	 * AudioWorkletProcessor의 비주얼라이저 버퍼 크기를 설정합니다.
-	 * @param bufferSize - 32부터 1024 사이의 정수 값 (샘플 수)
+	 * @param bufferSize - 32부터 16384 사이의 2의 거듭제곱 (샘플 수)
 	 */
 	public setVisualizerBufferSize(bufferSize: number): void {
 		if (!this.audioWorkletNode) {
@@ -384,12 +1527,12 @@ export class AudioPreloader {
 			return;
 		}
 		if (
-			!Number.isInteger(bufferSize) ||
-			bufferSize < 32 ||
-			bufferSize > 1024
+			!isPowerOfTwo(bufferSize) ||
+			bufferSize < MIN_VISUALIZER_BUFFER_SIZE ||
+			bufferSize > MAX_VISUALIZER_BUFFER_SIZE
 		) {
 			console.error(
-				"Visualizer buffer size must be an integer between 32 and 1024."
+				`Visualizer buffer size must be a power of two between ${MIN_VISUALIZER_BUFFER_SIZE} and ${MAX_VISUALIZER_BUFFER_SIZE}.`
 			);
 			return;
 		}
@@ -416,13 +1559,22 @@ export class AudioPreloader {
 		return this.audioContext.suspend();
 	}
 
+	/**
+	 * AudioContext 시각(초)을 샘플 프레임으로 변환합니다.
+	 * @param when - AudioContext.currentTime 기준 시각 (생략 시 undefined)
+	 */
+	private toFrame(when?: number): number | undefined {
+		if (when === undefined || !Number.isFinite(when)) return undefined;
+		return Math.round(when * this.audioContext.sampleRate);
+	}
+
 	/**
 	 * AudioWorkletNode의 포트를 통해 메시지를 전송합니다.
 	 * @param message - 전송할 메시지 객체
 	 * @param options - (선택) StructuredSerializeOptions
 	 */
-	private postTypedMessage<T>(
-		message: T,
+	private postTypedMessage(
+		message: AudioProcessorPostMessage,
 		options?: StructuredSerializeOptions
 	): void {
 		if (!this.audioWorkletNode) {
@@ -430,6 +1582,169 @@ export class AudioPreloader {
 			return;
 		}
 		this.audioWorkletNode.port.postMessage(message, options);
+		this.recordMessage(message);
+	}
+
+	/**
+	 * 오프라인 렌더링에서 현재 상태를 재현할 수 있도록 설정 메시지와 재생 상태를 기록합니다.
+	 */
+	private recordMessage(message: AudioProcessorPostMessage): void {
+		const { type, key } = message;
+		if (type === "play") {
+			// 키마다 마지막 재생만 기록합니다. (오프라인 렌더링은 키당 한 보이스)
+			const { channels, ...play } = message.data as PlayMessageData;
+			// 이전 보이스에 보낸 설정은 새 보이스에 적용되지 않으므로 버립니다.
+			const previous = this.activePlays.get(key)?.voiceId;
+			if (previous !== undefined && previous !== play.voiceId) {
+				for (const slot of this.settingsLog.keys()) {
+					if (slot.slice(slot.indexOf(":") + 1) === previous) {
+						this.settingsLog.delete(slot);
+					}
+				}
+			}
+			this.activePlays.set(key, play);
+			return;
+		}
+		// 보이스 ID로 보낸 메시지는 그 키의 마지막 재생 보이스일 때만 키로 기록합니다.
+		const recordedKey = this.getRecordedKey(key);
+		if (recordedKey === undefined) return;
+		switch (type) {
+			case "stop": {
+				// 예약 정지는 정지 시각까지 재생 중으로 남겨 둡니다.
+				const stopFrame = (message.data as StopMessageData | null)
+					?.stopFrame;
+				const play = this.activePlays.get(recordedKey);
+				if (play && stopFrame !== undefined) {
+					play.stopFrame = stopFrame;
+				} else {
+					this.activePlays.delete(recordedKey);
+				}
+				return;
+			}
+			case "adjustPlaybackRate": {
+				const play = this.activePlays.get(recordedKey);
+				if (play) play.playbackRate = Number(message.data);
+				return;
+			}
+			case "adjustTimeStretch":
+			case "setLoopRegion": {
+				const play = this.activePlays.get(recordedKey);
+				if (play) Object.assign(play, message.data);
+				return;
+			}
+			case "clear":
+				// 키를 지우면 키의 모든 설정을, 보이스를 지우면 그 보이스에 보낸 설정만 버립니다.
+				this.activePlays.delete(recordedKey);
+				for (const [slot, recorded] of this.settingsLog) {
+					const target =
+						recordedKey === key
+							? recorded.key
+							: slot.slice(slot.indexOf(":") + 1);
+					if (target === key) this.settingsLog.delete(slot);
+				}
+				return;
+		}
+		if (!REPLAYED_MESSAGE_TYPES.has(type)) return;
+		// ms/샘플 단위 레이턴시는 같은 값을 설정하므로 하나로 취급합니다.
+		const slot = `${
+			type === "adjustLatencySamples" ? "adjustLatency" : type
+		}:${key}`;
+		this.settingsLog.delete(slot);
+		this.settingsLog.set(
+			slot,
+			structuredClone({ ...message, key: recordedKey })
+		);
+	}
+
+	/**
+	 * 메시지 대상의 기록용 키를 반환합니다.
+	 * playAudio가 발급한 보이스 ID(`${key}#n`)는 그 키의 마지막 재생 보이스면 키로 바꾸고, 아니면 undefined를 반환합니다.
+	 */
+	private getRecordedKey(id: string): string | undefined {
+		const match = /^(.*)#\d+$/.exec(id);
+		if (!match || !this.audioBuffers.has(match[1])) return id;
+		return this.activePlays.get(match[1])?.voiceId === id ? match[1] : undefined;
+	}
+
+	/**
+	 * 현재 트랙/마스터 설정(EQ, 이펙트, 드라이브, 다이나믹스, 볼륨, 리미터 등)을 그대로 적용해
+	 * OfflineAudioContext에서 같은 AudioProcessor로 믹스를 렌더링합니다.
+	 * 트랙은 모두 처음부터 재생되며, 렌더링 샘플레이트가 AudioContext와 달라도 버퍼 샘플레이트 기준으로 원래 속도를 유지합니다.
+	 * @param durationSec - 렌더링 길이 (초)
+	 * @param sampleRate - 렌더링 샘플레이트 (기본: AudioContext 샘플레이트)
+	 * @param keys - 렌더링할 트랙 키 목록 (기본: 현재 재생 중인 트랙, 재생 옵션 유지)
+	 * @returns 렌더링된 AudioBuffer
+	 */
+	public async renderOffline(
+		durationSec: number,
+		sampleRate: number = this.audioContext.sampleRate,
+		keys?: string[]
+	): Promise<AudioBuffer> {
+		if (!this.workletModuleUrl) {
+			throw new Error("AudioWorkletNode not initialized.");
+		}
+		const channelCount = this.audioContext.destination.channelCount;
+		const offlineContext = new OfflineAudioContext(
+			channelCount,
+			Math.max(1, Math.ceil(durationSec * sampleRate)),
+			sampleRate
+		);
+		await offlineContext.audioWorklet.addModule(this.workletModuleUrl);
+
+		// 재생 시작 시 트랙 설정이 기본값으로 초기화되므로 트랙을 먼저 재생한 뒤 설정을 적용하고,
+		// 설정이 기본값에서 서서히 바뀌지 않도록 스무딩을 끕니다.
+		const messages: AudioProcessorPostMessage[] = [
+			{ type: "setParameterSmoothing", key: "", data: 0 },
+		];
+		// 예약 정지 시각이 지난 재생은 제외합니다.
+		const now = this.audioContext.currentTime * this.audioContext.sampleRate;
+		for (const [key, play] of this.activePlays) {
+			if (play.stopFrame !== undefined && play.stopFrame <= now) {
+				this.activePlays.delete(key);
+			}
+		}
+		for (const key of keys ?? [...this.activePlays.keys()]) {
+			const audioBuffer = this.audioBuffers.get(key);
+			if (!audioBuffer) {
+				console.warn(`No AudioBuffer for key=${key}`);
+				continue;
+			}
+			const channels: Float32Array[] = [];
+			for (let c = 0; c < audioBuffer.numberOfChannels; c++) {
+				channels.push(audioBuffer.getChannelData(c).slice(0));
+			}
+			// 예약 시각, 예약 정지, 페이드 인은 제외하고 재생 옵션을 그대로 사용합니다.
+			// 보이스 ID로 보낸 설정도 키로 기록했으므로 기본 보이스로 재생합니다.
+			const { stopFrame, voiceId, ...play } = this.activePlays.get(key) ?? {
+				loop: false,
+			};
+			messages.push({
+				type: "play",
+				key,
+				data: {
+					...play,
+					channels,
+					sampleRate: audioBuffer.sampleRate,
+					startFrame: undefined,
+					fadeInMs: undefined,
+				},
+			});
+		}
+		messages.push(...this.settingsLog.values());
+
+		// 메시지는 processorOptions로 전달해 첫 렌더 블록 전에 적용되도록 합니다.
+		const node = new AudioWorkletNode(
+			offlineContext,
+			"audio-worklet-processor",
+			{
+				numberOfInputs: 0,
+				numberOfOutputs: 1,
+				outputChannelCount: [channelCount],
+				processorOptions: { messages },
+			}
+		);
+		node.connect(offlineContext.destination);
+		return offlineContext.startRendering();
 	}
 
 	/**
@@ -439,6 +1754,9 @@ export class AudioPreloader {
 	public releaseAllResources(): void {
 		this.audioDataMap.clear();
 		this.audioBuffers.clear();
+		this.registeredAudio.clear();
+		this.downloadBytes.clear();
+		this.pcmCachedKeys.clear();
 		if (this.audioContext.state !== "closed") {
 			this.audioContext.close();
 		}
@@ -449,6 +1767,20 @@ export class AudioPreloader {
 	public get progress() {
 		return this.loadingProgress;
 	}
+	/**
+	 * 진행 중인 loadAll/loadKeys 전체 파일의 바이트 기준 진행률 (0 ~ 1)
+	 * 대기 중이거나 Content-Length를 모르는 파일이 있으면 전체 크기를 알 수 없으므로 null입니다. (그동안은 progress 사용)
+	 */
+	public get byteProgress(): number | null {
+		let received = 0;
+		let total = 0;
+		for (const { receivedBytes, totalBytes } of this.downloadBytes.values()) {
+			if (totalBytes === null) return null;
+			received += Math.min(receivedBytes, totalBytes);
+			total += totalBytes;
+		}
+		return total > 0 ? received / total : 0;
+	}
 	public get downloadedCount() {
 		return this.loadedCount;
 	}
@@ -458,4 +1790,8 @@ export class AudioPreloader {
 	public get loaded() {
 		return this.isWorkerDone;
 	}
+	// 예약 재생(when) 시각 계산 등에 사용할 AudioContext
+	public get context() {
+		return this.audioContext;
+	}
 }
@@ -0,0 +1,166 @@
+import { EQBand } from './types';
+
+/**
+ * 정규화된 2차(biquad) 필터 계수 (a0 = 1)
+ */
+export interface BiquadCoefficients {
+    b0: number;
+    b1: number;
+    b2: number;
+    a1: number;
+    a2: number;
+}
+
+/** 통과 필터(계수 적용 시 입력 그대로 출력) */
+const IDENTITY: BiquadCoefficients = { b0: 1, b1: 0, b2: 0, a1: 0, a2: 0 };
+
+/**
+ * 밴드 타입별 기본 Q
+ * - lowpass/highpass: 0.707 (버터워스, 레조넌스 없음)
+ * - 그 외: 1.41 (약 1옥타브 대역폭)
+ */
+export function getDefaultQ(band: EQBand): number {
+    return band.type === 'lowpass' || band.type === 'highpass' ? Math.SQRT1_2 : Math.SQRT2;
+}
+
+/**
+ * EQ 밴드 설정이 신호를 바꾸지 않는지 여부 (게인 0인 peaking/shelf)
+ */
+export function isIdentityBand(band: EQBand): boolean {
+    const type = band.type ?? 'peaking';
+    return band.gain === 0 && (type === 'peaking' || type === 'lowshelf' || type === 'highshelf');
+}
+
+/**
+ * EQ 밴드의 biquad 계수를 계산합니다. (RBJ Audio EQ Cookbook)
+ * @param band - EQ 밴드 설정
+ * @param sampleRate - 샘플레이트 (Hz)
+ * @returns a0로 정규화된 계수
+ */
+export function computeBiquadCoefficients(band: EQBand, sampleRate: number): BiquadCoefficients {
+    const nyquist = sampleRate / 2;
+    if (!Number.isFinite(band.frequency) || band.frequency <= 0 || band.frequency >= nyquist) {
+        return { ...IDENTITY };
+    }
+
+    const q = Math.max(0.1, Math.min(18, band.q ?? getDefaultQ(band)));
+    const A = Math.pow(10, (band.gain || 0) / 40);
+    const w0 = (2 * Math.PI * band.frequency) / sampleRate;
+    const cosW0 = Math.cos(w0);
+    const alpha = Math.sin(w0) / (2 * q);
+
+    let b0: number, b1: number, b2: number, a0: number, a1: number, a2: number;
+    switch (band.type ?? 'peaking') {
+        case 'lowshelf': {
+            const sqrtA2alpha = 2 * Math.sqrt(A) * alpha;
+            b0 = A * (A + 1 - (A - 1) * cosW0 + sqrtA2alpha);
+            b1 = 2 * A * (A - 1 - (A + 1) * cosW0);
+            b2 = A * (A + 1 - (A - 1) * cosW0 - sqrtA2alpha);
+            a0 = A + 1 + (A - 1) * cosW0 + sqrtA2alpha;
+            a1 = -2 * (A - 1 + (A + 1) * cosW0);
+            a2 = A + 1 + (A - 1) * cosW0 - sqrtA2alpha;
+            break;
+        }
+        case 'highshelf': {
+            const sqrtA2alpha = 2 * Math.sqrt(A) * alpha;
+            b0 = A * (A + 1 + (A - 1) * cosW0 + sqrtA2alpha);
+            b1 = -2 * A * (A - 1 + (A + 1) * cosW0);
+            b2 = A * (A + 1 + (A - 1) * cosW0 - sqrtA2alpha);
+            a0 = A + 1 - (A - 1) * cosW0 + sqrtA2alpha;
+            a1 = 2 * (A - 1 - (A + 1) * cosW0);
+            a2 = A + 1 - (A - 1) * cosW0 - sqrtA2alpha;
+            break;
+        }
+        case 'lowpass':
+            b0 = (1 - cosW0) / 2;
+            b1 = 1 - cosW0;
+            b2 = (1 - cosW0) / 2;
+            a0 = 1 + alpha;
+            a1 = -2 * cosW0;
+            a2 = 1 - alpha;
+            break;
+        case 'highpass':
+            b0 = (1 + cosW0) / 2;
+            b1 = -(1 + cosW0);
+            b2 = (1 + cosW0) / 2;
+            a0 = 1 + alpha;
+            a1 = -2 * cosW0;
+            a2 = 1 - alpha;
+            break;
+        case 'notch':
+            b0 = 1;
+            b1 = -2 * cosW0;
+            b2 = 1;
+            a0 = 1 + alpha;
+            a1 = -2 * cosW0;
+            a2 = 1 - alpha;
+            break;
+        case 'bandpass':
+            // 피크 게인 0dB (constant 0 dB peak gain)
+            b0 = alpha;
+            b1 = 0;
+            b2 = -alpha;
+            a0 = 1 + alpha;
+            a1 = -2 * cosW0;
+            a2 = 1 - alpha;
+            break;
+        case 'peaking':
+        default:
+            b0 = 1 + alpha * A;
+            b1 = -2 * cosW0;
+            b2 = 1 - alpha * A;
+            a0 = 1 + alpha / A;
+            a1 = -2 * cosW0;
+            a2 = 1 - alpha / A;
+            break;
+    }
+
+    return {
+        b0: b0 / a0,
+        b1: b1 / a0,
+        b2: b2 / a0,
+        a1: a1 / a0,
+        a2: a2 / a0,
+    };
+}
+
+/**
+ * biquad 필터의 특정 주파수에서의 크기 응답 (선형 배율)
+ */
+export function getBiquadMagnitude(coeffs: BiquadCoefficients, frequency: number, sampleRate: number): number {
+    const w = (2 * Math.PI * frequency) / sampleRate;
+    const cos1 = Math.cos(w);
+    const sin1 = Math.sin(w);
+    const cos2 = Math.cos(2 * w);
+    const sin2 = Math.sin(2 * w);
+    // H(e^jw) = (b0 + b1 e^-jw + b2 e^-2jw) / (1 + a1 e^-jw + a2 e^-2jw)
+    const numRe = coeffs.b0 + coeffs.b1 * cos1 + coeffs.b2 * cos2;
+    const numIm = -(coeffs.b1 * sin1 + coeffs.b2 * sin2);
+    const denRe = 1 + coeffs.a1 * cos1 + coeffs.a2 * cos2;
+    const denIm = -(coeffs.a1 * sin1 + coeffs.a2 * sin2);
+    return Math.hypot(numRe, numIm) / Math.hypot(denRe, denIm);
+}
+
+/**
+ * 여러 EQ 밴드를 직렬로 적용했을 때의 전체 주파수 응답을 계산합니다. (EQ 곡선 그리기용)
+ * @param bands - EQ 밴드 설정 배열
+ * @param frequencies - 응답을 계산할 주파수 목록 (Hz)
+ * @param sampleRate - 샘플레이트 (Hz)
+ * @returns 주파수별 게인 (dB)
+ */
+export function getEQFrequencyResponse(
+    bands: EQBand[],
+    frequencies: ArrayLike<number>,
+    sampleRate: number
+): Float32Array {
+    const response = new Float32Array(frequencies.length);
+    for (const band of bands) {
+        if (isIdentityBand(band)) continue;
+        const coeffs = computeBiquadCoefficients(band, sampleRate);
+        for (let i = 0; i < frequencies.length; i++) {
+            const magnitude = getBiquadMagnitude(coeffs, frequencies[i], sampleRate);
+            response[i] += 20 * Math.log10(Math.max(magnitude, 1e-12));
+        }
+    }
+    return response;
+}
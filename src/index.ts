@@ -2,4 +2,8 @@ export * from "./AudioPreloader";
 export * from "./types";
 export * from "./AudioLoader.worker";
 export * from "./AudioProcessor.worklet";
+export * from "./AudioEngine";
 export * from "./utils";
+export * from "./biquad";
+export * from "./spectrum";
+export * from "./wav";
@@ -0,0 +1,161 @@
+import { LimiterSettings } from './types';
+
+/**
+ * 룩어헤드 브릭월 리미터
+ * - 모든 채널의 최대 레벨로 필요한 게인을 계산하고 동일한 게인을 적용 (스테레오 링크)
+ * - 룩어헤드 구간의 최소 게인을 이동 평균해 피크가 출력되기 전에 게인이 내려가도록 보장
+ * - 게인 회복은 릴리즈 시간 상수로 스무딩
+ */
+export class BrickwallLimiter {
+    private readonly maxLookahead: number;
+    private ceiling: number = Math.pow(10, -1 / 20);
+    private lookahead: number = 0;
+    private releaseCoeff: number = 0;
+
+    // 채널별 지연 버퍼
+    private delayBuffers: Float32Array[] = [];
+    private writeIndex: number = 0;
+
+    // 룩어헤드 구간 최소 게인 계산용 단조 덱 (값, 샘플 위치)
+    private dequeValues: Float64Array;
+    private dequePositions: Float64Array;
+    private dequeHead: number = 0;
+    private dequeSize: number = 0;
+    private position: number = 0;
+
+    // 최소 게인 이동 평균 (어택 스무딩)
+    private boxBuffer: Float64Array;
+    private boxIndex: number = 0;
+    private boxSum: number = 0;
+
+    private gain: number = 1;
+    // 마지막 보고 이후 최소 게인
+    private minGain: number = 1;
+
+    /**
+     * @param sampleRate - 샘플레이트 (Hz)
+     * @param maxLookaheadMs - 최대 룩어헤드 (ms, 버퍼 크기 결정)
+     */
+    constructor(private readonly sampleRate: number, maxLookaheadMs: number = 20) {
+        this.maxLookahead = Math.max(1, Math.round((maxLookaheadMs * sampleRate) / 1000));
+        this.dequeValues = new Float64Array(this.maxLookahead + 2);
+        this.dequePositions = new Float64Array(this.maxLookahead + 2);
+        this.boxBuffer = new Float64Array(this.maxLookahead);
+        this.configure({ enabled: true });
+    }
+
+    /**
+     * 리미터 파라미터를 설정합니다. 룩어헤드가 바뀌면 내부 상태를 초기화합니다.
+     */
+    public configure(settings: LimiterSettings): void {
+        const ceilingDb = Math.max(-24, Math.min(0, settings.ceilingDb ?? -1));
+        this.ceiling = Math.pow(10, ceilingDb / 20);
+        const releaseMs = Math.max(1, Math.min(3000, settings.releaseMs ?? 100));
+        this.releaseCoeff = Math.exp(-1 / (releaseMs * 0.001 * this.sampleRate));
+
+        const lookahead = Math.min(
+            this.maxLookahead - 1,
+            Math.max(0, Math.round(((settings.lookaheadMs ?? 5) * this.sampleRate) / 1000))
+        );
+        if (lookahead !== this.lookahead) {
+            this.lookahead = lookahead;
+            this.reset(this.delayBuffers.length);
+        }
+    }
+
+    /**
+     * 지연 버퍼와 게인 상태를 초기화합니다.
+     * @param channelCount - 채널 수
+     */
+    public reset(channelCount: number): void {
+        this.delayBuffers = [];
+        for (let c = 0; c < channelCount; c++) {
+            this.delayBuffers.push(new Float32Array(this.maxLookahead));
+        }
+        this.writeIndex = 0;
+        this.dequeHead = 0;
+        this.dequeSize = 0;
+        this.position = 0;
+        this.boxBuffer.fill(1);
+        this.boxIndex = 0;
+        this.boxSum = this.lookahead;
+        this.gain = 1;
+    }
+
+    /**
+     * 리미터를 in-place로 적용합니다. (룩어헤드만큼 신호가 지연됨)
+     */
+    public process(channels: Float32Array[]): Float32Array[] {
+        if (channels.length === 0) return channels;
+        if (channels.length !== this.delayBuffers.length) {
+            this.reset(channels.length);
+        }
+
+        const ceiling = this.ceiling;
+        const lookahead = this.lookahead;
+        const size = this.maxLookahead;
+        const capacity = this.dequeValues.length;
+        const length = channels[0].length;
+
+        for (let i = 0; i < length; i++) {
+            // 필요한 게인 (피크가 ceiling을 넘지 않도록)
+            let peak = 0;
+            for (const buffer of channels) {
+                const level = Math.abs(buffer[i]);
+                if (level > peak) peak = level;
+            }
+            const required = peak > ceiling ? ceiling / peak : 1;
+
+            // 단조 덱으로 최근 lookahead + 1 샘플의 최소 게인 계산
+            while (this.dequeSize > 0) {
+                const back = (this.dequeHead + this.dequeSize - 1) % capacity;
+                if (this.dequeValues[back] < required) break;
+                this.dequeSize--;
+            }
+            const tail = (this.dequeHead + this.dequeSize) % capacity;
+            this.dequeValues[tail] = required;
+            this.dequePositions[tail] = this.position;
+            this.dequeSize++;
+            while (this.position - this.dequePositions[this.dequeHead] > lookahead) {
+                this.dequeHead = (this.dequeHead + 1) % capacity;
+                this.dequeSize--;
+            }
+            const windowMin = this.dequeValues[this.dequeHead];
+            this.position++;
+
+            // 이동 평균으로 어택을 부드럽게 (평균 구간의 모든 값이 지연된 샘플의 필요 게인 이하)
+            let target = windowMin;
+            if (lookahead > 0) {
+                this.boxSum += windowMin - this.boxBuffer[this.boxIndex];
+                this.boxBuffer[this.boxIndex] = windowMin;
+                this.boxIndex = (this.boxIndex + 1) % lookahead;
+                target = Math.min(1, this.boxSum / lookahead);
+            }
+
+            // 게인 감소는 즉시, 회복은 릴리즈 시간 상수로
+            this.gain = target < this.gain ? target : target + (this.gain - target) * this.releaseCoeff;
+            if (this.gain < this.minGain) this.minGain = this.gain;
+
+            const readIndex = (this.writeIndex - lookahead + size) % size;
+            for (let c = 0; c < channels.length; c++) {
+                const delayBuffer = this.delayBuffers[c];
+                delayBuffer[this.writeIndex] = channels[c][i];
+                const sample = delayBuffer[readIndex] * this.gain;
+                // 부동소수점 오차로 인한 미세한 초과 방지
+                channels[c][i] = sample > ceiling ? ceiling : sample < -ceiling ? -ceiling : sample;
+            }
+            this.writeIndex = (this.writeIndex + 1) % size;
+        }
+
+        return channels;
+    }
+
+    /**
+     * 마지막 호출 이후 최대 게인 리덕션(dB, 0 이상)을 반환하고 초기화합니다.
+     */
+    public takeGainReductionDb(): number {
+        const reduction = -20 * Math.log10(Math.max(this.minGain, 1e-9));
+        this.minGain = 1;
+        return reduction;
+    }
+}
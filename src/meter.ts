@@ -0,0 +1,302 @@
+import { BiquadCoefficients } from './biquad';
+import { MeterData } from './types';
+
+/** 블록(게이팅 단위 간격) 길이 (초) */
+const BLOCK_SECONDS = 0.1;
+/** momentary 구간 = 4블록 (400ms), short-term 구간 = 30블록 (3s) */
+const MOMENTARY_BLOCKS = 4;
+const SHORT_TERM_BLOCKS = 30;
+/** 통합 라우드니스 게이트 (BS.1770-4) */
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+/** 게이팅 히스토그램 범위와 해상도 (LUFS) */
+const HISTOGRAM_MIN_LUFS = -70;
+const HISTOGRAM_MAX_LUFS = 10;
+const HISTOGRAM_STEP = 0.1;
+/** 트루 피크 오버샘플링 배율과 위상당 탭 수 */
+const TRUE_PEAK_FACTOR = 4;
+const TRUE_PEAK_TAPS = 12;
+
+/**
+ * ITU-R BS.1770 K-weighting 필터 계수 (프리필터 shelf + RLB 하이패스)
+ * @param sampleRate - 샘플레이트 (Hz)
+ */
+export function computeKWeightingCoefficients(sampleRate: number): [BiquadCoefficients, BiquadCoefficients] {
+    // 1단: 머리 효과를 반영한 고역 shelf (+4dB)
+    let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+    let Q = 0.7071752369554196;
+    const Vh = Math.pow(10, 3.999843853973347 / 20);
+    const Vb = Math.pow(Vh, 0.4996667741545416);
+    let a0 = 1 + K / Q + K * K;
+    const shelf: BiquadCoefficients = {
+        b0: (Vh + (Vb * K) / Q + K * K) / a0,
+        b1: (2 * (K * K - Vh)) / a0,
+        b2: (Vh - (Vb * K) / Q + K * K) / a0,
+        a1: (2 * (K * K - 1)) / a0,
+        a2: (1 - K / Q + K * K) / a0,
+    };
+
+    // 2단: RLB 하이패스
+    K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+    Q = 0.5003270373238773;
+    a0 = 1 + K / Q + K * K;
+    const highpass: BiquadCoefficients = {
+        b0: 1,
+        b1: -2,
+        b2: 1,
+        a1: (2 * (K * K - 1)) / a0,
+        a2: (1 - K / Q + K * K) / a0,
+    };
+    return [shelf, highpass];
+}
+
+/**
+ * 채널별 라우드니스 가중치 (BS.1770: L/R/C = 1, 서라운드 = 1.41, 5.1의 LFE = 0)
+ */
+function getChannelWeight(channel: number, channelCount: number): number {
+    if (channelCount === 6) {
+        if (channel === 3) return 0;
+        if (channel >= 4) return 1.41;
+    }
+    return 1;
+}
+
+/**
+ * 평균 제곱 에너지를 LUFS로 변환 (에너지가 0이면 -Infinity)
+ */
+function energyToLufs(energy: number): number {
+    return energy > 0 ? -0.691 + 10 * Math.log10(energy) : -Infinity;
+}
+
+/**
+ * 선형 레벨을 dBFS로 변환 (0이면 -Infinity)
+ */
+function toDb(value: number): number {
+    return value > 0 ? 20 * Math.log10(value) : -Infinity;
+}
+
+/**
+ * 피크, RMS, 트루 피크, momentary/short-term/integrated 라우드니스 미터
+ * - 피크/RMS/트루 피크는 마지막 보고 이후 구간 기준
+ * - 라우드니스는 100ms 블록 단위로 갱신
+ */
+export class LevelMeter {
+    private readonly kWeighting: [BiquadCoefficients, BiquadCoefficients];
+    private readonly blockSize: number;
+    // 트루 피크 보간 필터 (위상 p의 k번째 탭 = truePeakFilter[k * FACTOR + p])
+    private readonly truePeakFilter: Float64Array;
+
+    private channelCount: number = 0;
+    // 채널별 K-weighting 필터 상태 [s1, s2] x 2단
+    private filterStates: Float64Array[] = [];
+    // 채널별 트루 피크용 최근 입력 (원형 버퍼)
+    private histories: Float64Array[] = [];
+    private historyIndex: number = 0;
+
+    // 현재 블록의 가중 제곱합과 샘플 수
+    private blockEnergy: number = 0;
+    private blockSamples: number = 0;
+    // 최근 블록 평균 에너지 (short-term 구간 원형 버퍼)
+    private blockEnergies: Float64Array = new Float64Array(SHORT_TERM_BLOCKS);
+    private blockIndex: number = 0;
+    private blockCount: number = 0;
+
+    // 통합 라우드니스 게이팅 히스토그램 (구간별 블록 수와 에너지 합)
+    private readonly histogramCounts: Float64Array;
+    private readonly histogramEnergies: Float64Array;
+
+    // 마지막 보고 이후 값
+    private peak: number = 0;
+    private truePeak: number = 0;
+    private squareSum: number = 0;
+    private squareCount: number = 0;
+
+    constructor(private readonly sampleRate: number) {
+        this.kWeighting = computeKWeightingCoefficients(sampleRate);
+        this.blockSize = Math.round(sampleRate * BLOCK_SECONDS);
+
+        // Hann 윈도우를 적용한 sinc 보간 필터 (위상별 DC 게인 1)
+        const length = TRUE_PEAK_FACTOR * TRUE_PEAK_TAPS;
+        const center = (length - 1) / 2;
+        this.truePeakFilter = new Float64Array(length);
+        for (let n = 0; n < length; n++) {
+            const x = (n - center) / TRUE_PEAK_FACTOR;
+            const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+            const window = 0.5 - 0.5 * Math.cos((2 * Math.PI * (n + 0.5)) / length);
+            this.truePeakFilter[n] = sinc * window;
+        }
+        for (let p = 0; p < TRUE_PEAK_FACTOR; p++) {
+            let sum = 0;
+            for (let k = 0; k < TRUE_PEAK_TAPS; k++) sum += this.truePeakFilter[k * TRUE_PEAK_FACTOR + p];
+            for (let k = 0; k < TRUE_PEAK_TAPS; k++) this.truePeakFilter[k * TRUE_PEAK_FACTOR + p] /= sum;
+        }
+
+        const bins = Math.round((HISTOGRAM_MAX_LUFS - HISTOGRAM_MIN_LUFS) / HISTOGRAM_STEP);
+        this.histogramCounts = new Float64Array(bins);
+        this.histogramEnergies = new Float64Array(bins);
+    }
+
+    /**
+     * 누적된 라우드니스와 필터 상태를 모두 초기화합니다.
+     */
+    public reset(): void {
+        this.setChannelCount(this.channelCount);
+        this.blockEnergy = 0;
+        this.blockSamples = 0;
+        this.blockEnergies.fill(0);
+        this.blockIndex = 0;
+        this.blockCount = 0;
+        this.histogramCounts.fill(0);
+        this.histogramEnergies.fill(0);
+        this.peak = 0;
+        this.truePeak = 0;
+        this.squareSum = 0;
+        this.squareCount = 0;
+    }
+
+    /**
+     * 채널별 샘플을 측정합니다.
+     */
+    public write(channels: Float32Array[]): void {
+        if (channels.length === 0) return;
+        if (channels.length !== this.channelCount) {
+            this.setChannelCount(channels.length);
+        }
+        const [shelf, highpass] = this.kWeighting;
+        const filter = this.truePeakFilter;
+        const length = channels[0].length;
+
+        for (let i = 0; i < length; i++) {
+            let weighted = 0;
+            for (let c = 0; c < this.channelCount; c++) {
+                const x = channels[c][i];
+
+                // 샘플 피크 / RMS
+                const level = Math.abs(x);
+                if (level > this.peak) this.peak = level;
+                this.squareSum += x * x;
+
+                // 트루 피크: 최근 입력으로 4배 오버샘플링한 값 중 최대
+                const history = this.histories[c];
+                history[this.historyIndex] = x;
+                for (let p = 0; p < TRUE_PEAK_FACTOR; p++) {
+                    let y = 0;
+                    for (let k = 0; k < TRUE_PEAK_TAPS; k++) {
+                        y += filter[k * TRUE_PEAK_FACTOR + p] * history[(this.historyIndex - k + TRUE_PEAK_TAPS) % TRUE_PEAK_TAPS];
+                    }
+                    const abs = Math.abs(y);
+                    if (abs > this.truePeak) this.truePeak = abs;
+                }
+
+                // K-weighting (Transposed Direct Form II, 2단)
+                const state = this.filterStates[c];
+                const y1 = shelf.b0 * x + state[0];
+                state[0] = shelf.b1 * x - shelf.a1 * y1 + state[1];
+                state[1] = shelf.b2 * x - shelf.a2 * y1;
+                const y2 = highpass.b0 * y1 + state[2];
+                state[2] = highpass.b1 * y1 - highpass.a1 * y2 + state[3];
+                state[3] = highpass.b2 * y1 - highpass.a2 * y2;
+                weighted += getChannelWeight(c, this.channelCount) * y2 * y2;
+            }
+            this.historyIndex = (this.historyIndex + 1) % TRUE_PEAK_TAPS;
+            this.squareCount += this.channelCount;
+
+            this.blockEnergy += weighted;
+            if (++this.blockSamples === this.blockSize) {
+                this.completeBlock();
+            }
+        }
+    }
+
+    /**
+     * 현재 측정값을 반환하고 구간 피크/RMS를 초기화합니다.
+     */
+    public takeReading(): MeterData {
+        const reading: MeterData = {
+            peakDb: toDb(this.peak),
+            truePeakDb: toDb(Math.max(this.truePeak, this.peak)),
+            rmsDb: toDb(this.squareCount > 0 ? Math.sqrt(this.squareSum / this.squareCount) : 0),
+            momentaryLufs: energyToLufs(this.getRecentEnergy(MOMENTARY_BLOCKS)),
+            shortTermLufs: energyToLufs(this.getRecentEnergy(SHORT_TERM_BLOCKS)),
+            integratedLufs: this.getIntegratedLoudness(),
+        };
+        this.peak = 0;
+        this.truePeak = 0;
+        this.squareSum = 0;
+        this.squareCount = 0;
+        return reading;
+    }
+
+    /**
+     * 100ms 블록을 마감하고 momentary(400ms) 에너지를 게이팅 히스토그램에 추가합니다.
+     */
+    private completeBlock(): void {
+        this.blockEnergies[this.blockIndex] = this.blockEnergy / this.blockSize;
+        this.blockIndex = (this.blockIndex + 1) % SHORT_TERM_BLOCKS;
+        this.blockCount++;
+        this.blockEnergy = 0;
+        this.blockSamples = 0;
+
+        // 75% 겹치는 400ms 게이팅 블록 (블록 4개가 쌓인 뒤부터)
+        if (this.blockCount >= MOMENTARY_BLOCKS) {
+            const energy = this.getRecentEnergy(MOMENTARY_BLOCKS);
+            const loudness = energyToLufs(energy);
+            if (loudness > ABSOLUTE_GATE_LUFS) {
+                const bin = Math.min(
+                    this.histogramCounts.length - 1,
+                    Math.floor((loudness - HISTOGRAM_MIN_LUFS) / HISTOGRAM_STEP)
+                );
+                this.histogramCounts[bin]++;
+                this.histogramEnergies[bin] += energy;
+            }
+        }
+    }
+
+    /**
+     * 최근 블록들의 평균 에너지 (아직 쌓이지 않은 블록은 무음으로 간주)
+     */
+    private getRecentEnergy(blocks: number): number {
+        let sum = 0;
+        for (let b = 1; b <= blocks; b++) {
+            sum += this.blockEnergies[(this.blockIndex - b + SHORT_TERM_BLOCKS) % SHORT_TERM_BLOCKS];
+        }
+        return sum / blocks;
+    }
+
+    /**
+     * 절대 게이트(-70 LUFS)와 상대 게이트(-10 LU)를 적용한 통합 라우드니스
+     */
+    private getIntegratedLoudness(): number {
+        let count = 0;
+        let energy = 0;
+        for (let bin = 0; bin < this.histogramCounts.length; bin++) {
+            count += this.histogramCounts[bin];
+            energy += this.histogramEnergies[bin];
+        }
+        if (count === 0) return -Infinity;
+
+        const relativeGate = energyToLufs(energy / count) + RELATIVE_GATE_LU;
+        const firstBin = Math.max(0, Math.floor((relativeGate - HISTOGRAM_MIN_LUFS) / HISTOGRAM_STEP));
+        count = 0;
+        energy = 0;
+        for (let bin = firstBin; bin < this.histogramCounts.length; bin++) {
+            count += this.histogramCounts[bin];
+            energy += this.histogramEnergies[bin];
+        }
+        return count > 0 ? energyToLufs(energy / count) : -Infinity;
+    }
+
+    /**
+     * 채널 수에 맞춰 필터 상태와 트루 피크 히스토리를 다시 할당합니다.
+     */
+    private setChannelCount(channelCount: number): void {
+        this.channelCount = channelCount;
+        this.filterStates = [];
+        this.histories = [];
+        for (let c = 0; c < channelCount; c++) {
+            this.filterStates.push(new Float64Array(4));
+            this.histories.push(new Float64Array(TRUE_PEAK_TAPS));
+        }
+        this.historyIndex = 0;
+    }
+}
@@ -1,7 +1,9 @@
 declare const sampleRate: number;
+declare const currentFrame: number;
+declare const currentTime: number;
 declare class AudioWorkletProcessor {
 	readonly port: MessagePort;
-	constructor();
+	constructor(options?: AudioWorkletNodeOptions);
 	process(
 		inputs: Float32Array[][],
 		outputs: Float32Array[][],
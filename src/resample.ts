@@ -0,0 +1,112 @@
+import { InterpolationQuality } from './types';
+
+/** 윈도우드 sinc 커널의 한쪽 탭 수 (원래 속도 기준) */
+const SINC_HALF_WIDTH = 8;
+/** 커널 테이블의 정수 간격당 분할 수 */
+const SINC_OVERSAMPLE = 512;
+/** 배속이 높을 때 컷오프를 낮추는 하한 (커널이 최대 1/이 값 배만큼 넓어짐) */
+const MIN_SINC_CUTOFF = 0.25;
+
+/**
+ * Blackman 윈도우를 적용한 sinc 커널 테이블 (x = 0 ~ SINC_HALF_WIDTH, 대칭)
+ */
+const SINC_TABLE: Float32Array = (() => {
+    const size = SINC_HALF_WIDTH * SINC_OVERSAMPLE + 1;
+    const table = new Float32Array(size);
+    for (let n = 0; n < size; n++) {
+        const x = n / SINC_OVERSAMPLE;
+        const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+        const phase = Math.PI * (1 + x / SINC_HALF_WIDTH);
+        const window = 0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase);
+        table[n] = sinc * window;
+    }
+    return table;
+})();
+
+/**
+ * 루프 구간 (소스 프레임, [loopStart, loopEnd))
+ */
+export interface LoopBounds {
+    loopStart: number;
+    loopEnd: number;
+}
+
+/**
+ * 정수 인덱스의 소스 샘플 (루프면 구간 안으로 감싸고, 범위 밖은 무음)
+ * - loopEnd 이후와 버퍼 앞쪽 밖의 인덱스는 구간 안으로 감쌉니다.
+ * - loopStart 이전 인덱스는 읽는 위치가 구간 안일 때만 감쌉니다. (구간에 들어가기 전에는 원래 샘플)
+ */
+function sampleAt(source: Float32Array, index: number, loop: LoopBounds | boolean, position: number): number {
+    const length = source.length;
+    if (loop !== false) {
+        const start = loop === true ? 0 : Math.max(0, Math.round(loop.loopStart));
+        const end = loop === true ? length : Math.min(length, Math.round(loop.loopEnd));
+        if (end > start && (index >= end || index < 0 || (index < start && position >= start))) {
+            const period = end - start;
+            return source[start + ((((index - start) % period) + period) % period)];
+        }
+    }
+    return index >= 0 && index < length ? source[index] : 0;
+}
+
+/**
+ * 커널 테이블에서 |x|의 값을 선형 보간으로 읽습니다.
+ */
+function sincKernel(x: number): number {
+    const position = Math.abs(x) * SINC_OVERSAMPLE;
+    const n = Math.floor(position);
+    if (n >= SINC_HALF_WIDTH * SINC_OVERSAMPLE) return 0;
+    const frac = position - n;
+    return SINC_TABLE[n] + (SINC_TABLE[n + 1] - SINC_TABLE[n]) * frac;
+}
+
+/**
+ * 소스 채널의 실수 위치 샘플을 지정한 품질로 읽습니다.
+ * - linear: 두 샘플 선형 보간 (마지막 샘플 이후는 마지막 값 유지, 루프면 loopStart 샘플)
+ * - cubic: 4점 Catmull-Rom 큐빅 에르미트 보간
+ * - sinc: Blackman 윈도우드 sinc (step > 1이면 컷오프를 낮춰 앨리어싱 방지)
+ * @param source - 소스 채널 샘플
+ * @param position - 읽을 위치 (소스 프레임)
+ * @param quality - 보간 품질
+ * @param loop - 루프 구간 (true면 버퍼 전체, false면 루프 없음 - 구간 밖 인덱스를 감쌈)
+ * @param step - 출력 샘플당 소스 진행량 (sinc 컷오프 계산용, 기본: 1)
+ */
+export function readSample(
+    source: Float32Array,
+    position: number,
+    quality: InterpolationQuality,
+    loop: LoopBounds | boolean,
+    step: number = 1
+): number {
+    const i0 = Math.floor(position);
+    const frac = position - i0;
+    switch (quality) {
+        case 'cubic': {
+            const xm1 = sampleAt(source, i0 - 1, loop, position);
+            const x0 = sampleAt(source, i0, loop, position);
+            const x1 = sampleAt(source, i0 + 1, loop, position);
+            const x2 = sampleAt(source, i0 + 2, loop, position);
+            const c1 = 0.5 * (x1 - xm1);
+            const c2 = xm1 - 2.5 * x0 + 2 * x1 - 0.5 * x2;
+            const c3 = 0.5 * (x2 - xm1) + 1.5 * (x0 - x1);
+            return ((c3 * frac + c2) * frac + c1) * frac + x0;
+        }
+        case 'sinc': {
+            // 배속이 1보다 크면 나이퀴스트를 넘는 성분이 생기므로 컷오프를 1/step으로 낮춥니다.
+            const cutoff = Math.min(1, Math.max(MIN_SINC_CUTOFF, 1 / Math.abs(step || 1)));
+            const radius = SINC_HALF_WIDTH / cutoff;
+            const first = Math.floor(position - radius) + 1;
+            const last = Math.floor(position + radius);
+            let sum = 0;
+            for (let k = first; k <= last; k++) {
+                sum += sampleAt(source, k, loop, position) * sincKernel((position - k) * cutoff);
+            }
+            return sum * cutoff;
+        }
+        default: {
+            const sample1 = sampleAt(source, i0, loop, position);
+            const sample2 = loop !== false || i0 + 1 < source.length ? sampleAt(source, i0 + 1, loop, position) : sample1;
+            return sample1 * (1 - frac) + sample2 * frac;
+        }
+    }
+}
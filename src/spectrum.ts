@@ -0,0 +1,285 @@
+import { VisualizerBand, VisualizerSettings, VisualizerWindowType } from './types';
+
+/** 비주얼라이저 버퍼 크기 범위 (2의 거듭제곱) */
+export const MIN_VISUALIZER_BUFFER_SIZE = 32;
+export const MAX_VISUALIZER_BUFFER_SIZE = 16384;
+
+/**
+ * 값이 2의 거듭제곱인지 여부
+ */
+export function isPowerOfTwo(value: number): boolean {
+    return Number.isInteger(value) && value > 0 && (value & (value - 1)) === 0;
+}
+
+/**
+ * 윈도우 함수 계수를 생성합니다.
+ * @param type - 윈도우 종류
+ * @param size - 샘플 수
+ */
+export function createWindow(type: VisualizerWindowType, size: number): Float32Array {
+    const window = new Float32Array(size);
+    for (let n = 0; n < size; n++) {
+        const phase = (2 * Math.PI * n) / size;
+        switch (type) {
+            case 'hann':
+                window[n] = 0.5 - 0.5 * Math.cos(phase);
+                break;
+            case 'blackman':
+                window[n] = 0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase);
+                break;
+            default:
+                window[n] = 1;
+        }
+    }
+    return window;
+}
+
+/**
+ * 로그 간격으로 나눈 비주얼라이저 대역을 생성합니다.
+ * @param count - 대역 수
+ * @param minFrequency - 첫 대역 시작 주파수 (Hz, 기본: 20)
+ * @param maxFrequency - 마지막 대역 끝 주파수 (Hz, 기본: 20000)
+ */
+export function createLogVisualizerBands(
+    count: number,
+    minFrequency: number = 20,
+    maxFrequency: number = 20000
+): VisualizerBand[] {
+    const bands: VisualizerBand[] = [];
+    const n = Math.max(1, Math.floor(count));
+    const ratio = maxFrequency / minFrequency;
+    for (let i = 0; i < n; i++) {
+        bands.push({
+            startFrequency: minFrequency * Math.pow(ratio, i / n),
+            endFrequency: minFrequency * Math.pow(ratio, (i + 1) / n),
+        });
+    }
+    return bands;
+}
+
+/**
+ * 반복형 radix-2 FFT (in-place)
+ * @param re - 실수부 (길이는 2의 거듭제곱)
+ * @param im - 허수부
+ * @param cosTable - cos(2πk/N), k < N/2
+ * @param sinTable - sin(2πk/N), k < N/2
+ * @param bitReverse - 비트 반전 인덱스 테이블
+ */
+export function fftInPlace(
+    re: Float64Array,
+    im: Float64Array,
+    cosTable: Float64Array,
+    sinTable: Float64Array,
+    bitReverse: Uint32Array
+): void {
+    const size = re.length;
+    for (let i = 0; i < size; i++) {
+        const j = bitReverse[i];
+        if (j > i) {
+            let tmp = re[i];
+            re[i] = re[j];
+            re[j] = tmp;
+            tmp = im[i];
+            im[i] = im[j];
+            im[j] = tmp;
+        }
+    }
+    for (let half = 1; half < size; half *= 2) {
+        const step = size / (half * 2);
+        for (let start = 0; start < size; start += half * 2) {
+            for (let k = 0; k < half; k++) {
+                const wr = cosTable[k * step];
+                const wi = -sinTable[k * step];
+                const a = start + k;
+                const b = a + half;
+                const tr = re[b] * wr - im[b] * wi;
+                const ti = re[b] * wi + im[b] * wr;
+                re[b] = re[a] - tr;
+                im[b] = im[a] - ti;
+                re[a] += tr;
+                im[a] += ti;
+            }
+        }
+    }
+}
+
+/**
+ * 샘플을 누적해 버퍼가 찰 때마다 대역별 레벨을 계산하는 스펙트럼 분석기
+ */
+export class SpectrumAnalyzer {
+    private bands: VisualizerBand[] = [
+        { startFrequency: 20, endFrequency: 250 },
+        { startFrequency: 250, endFrequency: 500 },
+        { startFrequency: 500, endFrequency: 2000 },
+        { startFrequency: 2000, endFrequency: 4000 },
+        { startFrequency: 4000, endFrequency: 6000 },
+        { startFrequency: 6000, endFrequency: 20000 },
+    ];
+    private settings: VisualizerSettings = {};
+
+    private bufferSize: number = 128;
+    private sampleBuffer: Float32Array = new Float32Array(this.bufferSize);
+    private sampleIndex: number = 0;
+
+    // 버퍼 크기/윈도우가 바뀔 때 다시 계산하는 테이블
+    private window: Float32Array = new Float32Array(0);
+    // 윈도우 제곱합 (에너지 정규화용)
+    private windowPower: number = 1;
+    private cosTable: Float64Array = new Float64Array(0);
+    private sinTable: Float64Array = new Float64Array(0);
+    private bitReverse: Uint32Array = new Uint32Array(0);
+    private re: Float64Array = new Float64Array(0);
+    private im: Float64Array = new Float64Array(0);
+
+    // 대역별 스무딩된 레벨 (선형)
+    private levels: Float64Array = new Float64Array(0);
+
+    constructor(private readonly sampleRate: number) {
+        this.setBufferSize(this.bufferSize);
+    }
+
+    /**
+     * 분석 대역을 설정합니다.
+     */
+    public setBands(bands: VisualizerBand[]): void {
+        this.bands = bands.map((band) => ({ ...band }));
+        this.levels = new Float64Array(this.bands.length);
+    }
+
+    /**
+     * 분석 버퍼 크기를 설정합니다. (2의 거듭제곱만 허용)
+     * @returns 적용 여부
+     */
+    public setBufferSize(size: number): boolean {
+        if (!isPowerOfTwo(size) || size < MIN_VISUALIZER_BUFFER_SIZE || size > MAX_VISUALIZER_BUFFER_SIZE) {
+            return false;
+        }
+        this.bufferSize = size;
+        this.sampleBuffer = new Float32Array(size);
+        this.sampleIndex = 0;
+        this.re = new Float64Array(size);
+        this.im = new Float64Array(size);
+
+        const half = size / 2;
+        this.cosTable = new Float64Array(half);
+        this.sinTable = new Float64Array(half);
+        for (let k = 0; k < half; k++) {
+            this.cosTable[k] = Math.cos((2 * Math.PI * k) / size);
+            this.sinTable[k] = Math.sin((2 * Math.PI * k) / size);
+        }
+        const bits = Math.log2(size);
+        this.bitReverse = new Uint32Array(size);
+        for (let i = 0; i < size; i++) {
+            let reversed = 0;
+            for (let b = 0; b < bits; b++) {
+                reversed = (reversed << 1) | ((i >> b) & 1);
+            }
+            this.bitReverse[i] = reversed;
+        }
+        this.updateWindow();
+        this.levels = new Float64Array(this.bands.length);
+        return true;
+    }
+
+    /**
+     * 윈도우, 스무딩, 출력 단위를 설정합니다. (지정하지 않은 항목은 기본값)
+     */
+    public configure(settings: VisualizerSettings): void {
+        this.settings = { ...settings };
+        this.updateWindow();
+    }
+
+    /**
+     * 채널 평균 샘플을 누적하고, 버퍼가 찰 때마다 대역별 레벨을 콜백으로 전달합니다.
+     * @param channels - 채널별 샘플 버퍼
+     * @param onFrame - 분석 결과를 받을 콜백
+     */
+    public write(channels: Float32Array[], onFrame: (levels: number[]) => void): void {
+        if (channels.length === 0) return;
+        const length = channels[0].length;
+        const channelScale = 1 / channels.length;
+        let sampleIdx = 0;
+        while (sampleIdx < length) {
+            // 남은 샘플 수와 버퍼에 채울 수 있는 공간 중 작은 값만큼 복사 (채널 평균)
+            const copyCount = Math.min(length - sampleIdx, this.bufferSize - this.sampleIndex);
+            for (let i = 0; i < copyCount; i++) {
+                let sample = 0;
+                for (const channel of channels) {
+                    sample += channel[sampleIdx + i];
+                }
+                this.sampleBuffer[this.sampleIndex + i] = sample * channelScale;
+            }
+            this.sampleIndex += copyCount;
+            sampleIdx += copyCount;
+
+            if (this.sampleIndex === this.bufferSize) {
+                onFrame(this.analyze());
+                this.sampleIndex = 0;
+            }
+        }
+    }
+
+    /**
+     * 누적된 버퍼를 FFT로 분석해 대역별 레벨을 계산합니다.
+     */
+    private analyze(): number[] {
+        const N = this.bufferSize;
+        for (let n = 0; n < N; n++) {
+            this.re[n] = this.sampleBuffer[n] * this.window[n];
+            this.im[n] = 0;
+        }
+        fftInPlace(this.re, this.im, this.cosTable, this.sinTable, this.bitReverse);
+
+        // 대역 에너지를 사인파 진폭으로 환산 (풀스케일 사인파가 1, Parseval 정리 기준)
+        const powerScale = 4 / (N * this.windowPower);
+        const binWidth = this.sampleRate / N;
+        const frameMs = (N / this.sampleRate) * 1000;
+        const attackMs = this.settings.attackMs ?? 0;
+        const decayMs = this.settings.decayMs ?? 0;
+        const attackCoeff = attackMs > 0 ? Math.exp(-frameMs / attackMs) : 0;
+        const decayCoeff = decayMs > 0 ? Math.exp(-frameMs / decayMs) : 0;
+        const useDb = this.settings.scale === 'db';
+        const minDb = this.settings.minDb ?? -100;
+
+        const result: number[] = [];
+        for (let b = 0; b < this.bands.length; b++) {
+            const band = this.bands[b];
+            let power = 0;
+            let count = 0;
+            const first = Math.max(0, Math.ceil(band.startFrequency / binWidth));
+            for (let k = first; k <= N / 2 && k * binWidth < band.endFrequency; k++) {
+                power += this.re[k] * this.re[k] + this.im[k] * this.im[k];
+                count++;
+            }
+            // 빈 하나보다 좁은 대역은 중심 주파수에 가장 가까운 빈을 사용
+            if (count === 0) {
+                const center = Math.sqrt(Math.max(band.startFrequency, 1) * Math.max(band.endFrequency, 1));
+                const k = Math.round(center / binWidth);
+                if (k <= N / 2) {
+                    power = this.re[k] * this.re[k] + this.im[k] * this.im[k];
+                }
+            }
+            const level = Math.sqrt(power * powerScale);
+
+            // 올라갈 때는 attack, 내려갈 때는 decay 시간 상수로 스무딩
+            const previous = this.levels[b];
+            const coeff = level > previous ? attackCoeff : decayCoeff;
+            const smoothed = level + (previous - level) * coeff;
+            this.levels[b] = smoothed;
+
+            result.push(useDb ? Math.max(minDb, 20 * Math.log10(Math.max(smoothed, 1e-12))) : smoothed);
+        }
+        return result;
+    }
+
+    /**
+     * 현재 버퍼 크기와 윈도우 종류로 윈도우 테이블을 다시 계산합니다.
+     */
+    private updateWindow(): void {
+        this.window = createWindow(this.settings.window ?? 'hann', this.bufferSize);
+        this.windowPower = 0;
+        for (let n = 0; n < this.bufferSize; n++) {
+            this.windowPower += this.window[n] * this.window[n];
+        }
+    }
+}
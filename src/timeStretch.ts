@@ -0,0 +1,169 @@
+import { ExtendedTrack, InterpolationQuality } from './types';
+import { LoopBounds, readSample } from './resample';
+
+/** 그레인 길이 (ms) */
+const GRAIN_MS = 40;
+/** 그레인 시작 위치 탐색 범위 (± ms) */
+const SEARCH_MS = 10;
+/** 상관도 계산 시 건너뛰는 샘플 간격 (탐색 비용 절감) */
+const CORRELATION_STRIDE = 8;
+const COARSE_SEARCH_STEP = 4;
+
+/**
+ * 반음 + 센트를 재생 비율로 변환 (12반음 = 2배)
+ */
+export function semitonesToRatio(semitones: number): number {
+    return Math.pow(2, semitones / 12);
+}
+
+/**
+ * WSOLA(Waveform Similarity Overlap-Add) 기반 타임 스트레치/피치 시프트
+ * - 그레인은 피치 비율만큼 빠르게/느리게 읽고 (피치 변화)
+ * - 그레인 시작 위치는 템포에 맞춰 진행하는 재생 위치를 따르며 (템포 변화)
+ * - 이전 그레인의 자연스러운 연속 구간과 가장 비슷한 위치로 시작점을 보정해 위상이 끊기지 않게 합니다.
+ */
+export class TimeStretcher {
+    private readonly grainSize: number;
+    private readonly hopSize: number;
+    private readonly searchRange: number;
+    // 50% 겹침에서 합이 1이 되는 주기형 Hann 윈도우
+    private readonly window: Float32Array;
+    // 채널별 오버랩-애드 누적 버퍼 (길이 grainSize)
+    private accumulators: Float32Array[] = [];
+    // 현재 홉 안에서의 출력 위치 (0이면 새 그레인 합성)
+    private hopIndex: number = 0;
+    // 직전 그레인의 보정된 시작 위치 (소스 프레임, null이면 기준 없음)
+    private previousStart: number | null = null;
+
+    constructor(sampleRate: number) {
+        this.hopSize = Math.max(16, Math.round((GRAIN_MS * 0.001 * sampleRate) / 2));
+        this.grainSize = this.hopSize * 2;
+        this.searchRange = Math.round(SEARCH_MS * 0.001 * sampleRate);
+        this.window = new Float32Array(this.grainSize);
+        for (let n = 0; n < this.grainSize; n++) {
+            this.window[n] = 0.5 - 0.5 * Math.cos((2 * Math.PI * n) / this.grainSize);
+        }
+    }
+
+    /**
+     * 누적 버퍼와 정렬 기준을 초기화합니다. (탐색 등 재생 위치가 불연속으로 바뀐 경우)
+     */
+    public reset(): void {
+        for (const accumulator of this.accumulators) accumulator.fill(0);
+        this.hopIndex = 0;
+        this.previousStart = null;
+    }
+
+    /**
+     * 현재 재생 위치(track.readIndex)에 해당하는 출력 샘플 하나를 채널별로 씁니다.
+     * 재생 위치 진행(readIndex 증가)은 호출하는 쪽에서 처리합니다.
+     * @param track - 재생 중인 트랙
+     * @param step - 그레인 내부 읽기 간격 (소스 프레임/출력 샘플, 피치 비율 × 배속)
+     * @param quality - 그레인 샘플 보간 품질
+     * @param outputs - 채널별 출력 버퍼
+     * @param index - 출력 버퍼 내 위치
+     */
+    public process(
+        track: ExtendedTrack,
+        step: number,
+        quality: InterpolationQuality,
+        outputs: Float32Array[],
+        index: number
+    ): void {
+        const channelCount = outputs.length;
+        if (this.accumulators.length !== channelCount) {
+            this.accumulators = [];
+            for (let c = 0; c < channelCount; c++) this.accumulators.push(new Float32Array(this.grainSize));
+            this.hopIndex = 0;
+            this.previousStart = null;
+        }
+
+        if (this.hopIndex === 0) {
+            this.addGrain(track, step, quality);
+        }
+        for (let c = 0; c < channelCount; c++) {
+            outputs[c][index] = this.accumulators[c][this.hopIndex];
+        }
+        this.hopIndex = (this.hopIndex + 1) % this.hopSize;
+    }
+
+    /**
+     * 누적 버퍼를 한 홉만큼 밀고, 보정된 위치에서 읽은 새 그레인을 더합니다.
+     */
+    private addGrain(track: ExtendedTrack, step: number, quality: InterpolationQuality): void {
+        let start = track.readIndex;
+        // 반복이 남아 있으면 그레인이 루프 구간 안에서만 샘플을 읽습니다.
+        const loop = track.loop && track.loopsRemaining > 0 ? track : false;
+
+        // 직전 그레인이 그대로 이어졌을 위치와 가장 비슷한 구간을 찾습니다.
+        if (this.previousStart !== null) {
+            let natural = this.previousStart + this.hopSize * step;
+            if (loop && natural >= loop.loopEnd) natural -= loop.loopEnd - loop.loopStart;
+            if (Math.abs(natural - start) < this.grainSize * 4) {
+                start += this.findBestOffset(track, start, natural, step, loop);
+            }
+        }
+        this.previousStart = start;
+
+        const sourceCount = track.data.length;
+        const channelCount = this.accumulators.length;
+        for (let c = 0; c < channelCount; c++) {
+            const accumulator = this.accumulators[c];
+            accumulator.copyWithin(0, this.hopSize);
+            accumulator.fill(0, this.grainSize - this.hopSize);
+            for (let n = 0; n < this.grainSize; n++) {
+                const position = start + n * step;
+                let sample: number;
+                if (channelCount === 1 && sourceCount > 1) {
+                    sample = 0;
+                    for (let s = 0; s < sourceCount; s++) {
+                        sample += readSample(track.data[s], position, quality, loop, step);
+                    }
+                    sample /= sourceCount;
+                } else {
+                    const source = sourceCount === 1 ? track.data[0] : track.data[c];
+                    sample = source ? readSample(source, position, quality, loop, step) : 0;
+                }
+                accumulator[n] += sample * this.window[n];
+            }
+        }
+    }
+
+    /**
+     * 후보 시작 위치(start ± searchRange) 중 natural 구간과 상관도가 가장 높은 오프셋을 찾습니다.
+     * (첫 번째 소스 채널 기준, 성긴 탐색 후 주변을 1샘플 단위로 정밀 탐색)
+     */
+    private findBestOffset(track: ExtendedTrack, start: number, natural: number, step: number, loop: LoopBounds | false): number {
+        const source = track.data[0];
+        const correlate = (offset: number): number => {
+            let sum = 0;
+            for (let m = 0; m < this.hopSize; m += CORRELATION_STRIDE) {
+                const delta = m * step;
+                sum +=
+                    readSample(source, start + offset + delta, 'linear', loop) *
+                    readSample(source, natural + delta, 'linear', loop);
+            }
+            return sum;
+        };
+
+        let bestOffset = 0;
+        let bestScore = -Infinity;
+        for (let offset = -this.searchRange; offset <= this.searchRange; offset += COARSE_SEARCH_STEP) {
+            const score = correlate(offset);
+            if (score > bestScore) {
+                bestScore = score;
+                bestOffset = offset;
+            }
+        }
+        const coarse = bestOffset;
+        for (let offset = coarse - COARSE_SEARCH_STEP + 1; offset < coarse + COARSE_SEARCH_STEP; offset++) {
+            if (offset === coarse || Math.abs(offset) > this.searchRange) continue;
+            const score = correlate(offset);
+            if (score > bestScore) {
+                bestScore = score;
+                bestOffset = offset;
+            }
+        }
+        return bestOffset;
+    }
+}
@@ -1,11 +1,25 @@
+/**
+ * EQ 밴드 필터 타입
+ * - peaking: 중심 주파수 주변을 부스트/컷 (기본)
+ * - lowshelf / highshelf: 주파수 아래/위 전체를 부스트/컷
+ * - lowpass / highpass: 주파수 위/아래를 차단 (gain 무시)
+ * - notch: 중심 주파수만 제거 (gain 무시)
+ * - bandpass: 중심 주파수 주변만 통과 (gain 무시)
+ */
+export type EQBandType = 'peaking' | 'lowshelf' | 'highshelf' | 'lowpass' | 'highpass' | 'notch' | 'bandpass';
+
 /**
  * EQ 밴드 설정
  */
 export interface EQBand {
-    /** 중심 주파수 (Hz) - 예: 60, 250, 1000, 4000 등 */
+    /** 중심(또는 차단/셸프) 주파수 (Hz) - 예: 60, 250, 1000, 4000 등 */
     frequency: number;
-    /** 게인 (dB) - 범위: -12 ~ +12 권장 */
+    /** 게인 (dB) - 범위: -12 ~ +12 권장 (peaking/lowshelf/highshelf에서만 사용) */
     gain: number;
+    /** 필터 타입 (기본: 'peaking') */
+    type?: EQBandType;
+    /** Q (대역폭/레조넌스) - 범위: 0.1 ~ 18 (기본: peaking/shelf/notch/bandpass 1.41, lowpass/highpass 0.707) */
+    q?: number;
 }
 
 /**
@@ -82,11 +96,123 @@ export interface DynamicsSettings {
     threshold: number;
     /** 컴프레션 비율 - 범위: 1 ~ 20 (예: 4는 4:1 압축) */
     ratio: number;
+    /** 어택 시간 (ms) - 게인 리덕션이 늘어나는 속도, 범위: 0.1 ~ 200 (기본: 10) */
+    attackMs?: number;
+    /** 릴리즈 시간 (ms) - 게인 리덕션이 풀리는 속도, 범위: 1 ~ 3000 (기본: 100) */
+    releaseMs?: number;
+    /** 니(knee) 폭 (dB) - threshold 주변에서 부드럽게 압축되는 구간, 범위: 0 ~ 24 (기본: 6, 0은 하드 니) */
+    kneeDb?: number;
+    /** 메이크업 게인 (dB) - 압축 후 보정 게인, 범위: 0 ~ 24 (기본: 0) */
+    makeupDb?: number;
+    /** 룩어헤드 (ms) - 신호를 지연시켜 피크 전에 미리 압축, 범위: 0 ~ 20 (기본: 0, 지연 발생) */
+    lookaheadMs?: number;
+}
+
+/**
+ * 게인 리덕션 보고 (AudioProcessor → 메인 스레드)
+ */
+export interface GainReductionData {
+    /** 보고 주기 동안의 최대 게인 리덕션 (dB, 0 이상) */
+    gainReductionDb: number;
+}
+
+/**
+ * 레벨/라우드니스 미터 보고 (AudioProcessor → 메인 스레드)
+ * 무음이면 -Infinity
+ */
+export interface MeterData {
+    /** 보고 주기 동안의 샘플 피크 (dBFS) */
+    peakDb: number;
+    /** 보고 주기 동안의 트루 피크 (4배 오버샘플링, dBTP) */
+    truePeakDb: number;
+    /** 보고 주기 동안의 RMS (dBFS, 전체 채널) */
+    rmsDb: number;
+    /** 최근 400ms 라우드니스 (LUFS, ITU-R BS.1770 K-weighting) */
+    momentaryLufs: number;
+    /** 최근 3초 라우드니스 (LUFS) */
+    shortTermLufs: number;
+    /** 측정 시작(또는 초기화) 이후 게이팅된 통합 라우드니스 (LUFS) */
+    integratedLufs: number;
+}
+
+/**
+ * 공간(스테레오 이미지) 설정
+ */
+export interface SpatialSettings {
+    /** 좌우 패닝 - 범위: -1.0 ~ 1.0 (-1: 왼쪽, 0: 중앙, 1: 오른쪽, 기본: 0) */
+    pan?: number;
+    /** 스테레오 폭 - 범위: 0.0 ~ 2.0 (0: 모노, 1: 원본, 2: 최대 확장, 기본: 1) */
+    width?: number;
+}
+
+/**
+ * 마스터 로우패스 필터 설정 (레조넌트 2차 필터)
+ */
+export interface LowPassFilterSettings {
+    /** 컷오프 주파수 (Hz) - 나이퀴스트 주파수 이상이면 필터 해제 */
+    cutoff: number;
+    /** 레조넌스 (Q) - 범위: 0.1 ~ 20 (0.707: 평탄한 응답) */
+    Q: number;
+}
+
+/** 객체 타입에서 숫자 필드의 키만 추출 */
+type NumericKeys<T> = {
+    [K in keyof T]-?: NonNullable<T[K]> extends number ? K : never;
+}[keyof T] &
+    string;
+
+/**
+ * 자동화(램프) 가능한 트랙 파라미터 경로
+ * - 'volume': 트랙 볼륨
+ * - 'eq.<밴드 인덱스>.<필드>': 예) 'eq.0.gain'
+ * - '<설정 그룹>.<필드>': 예) 'effects.reverb', 'dynamics.threshold'
+ */
+export type AutomationPath =
+    | 'volume'
+    | `eq.${number}.${NumericKeys<EQBand>}`
+    | `modulation.${NumericKeys<ModulationSettings>}`
+    | `effects.${NumericKeys<EffectsSettings>}`
+    | `drive.${NumericKeys<DriveSettings>}`
+    | `dynamics.${NumericKeys<DynamicsSettings>}`
+    | `spatial.${NumericKeys<SpatialSettings>}`;
+
+/**
+ * 자동화 곡선
+ * - linear: 선형 변화
+ * - exponential: 지수 변화 (시작/끝 값의 부호가 같고 0이 아닐 때만, 그 외에는 선형)
+ */
+export type AutomationCurve = 'linear' | 'exponential';
+
+/**
+ * 'rampParameter' 메시지 데이터
+ */
+export interface ParameterRampData {
+    path: AutomationPath;
+    /** 목표 값 */
+    value: number;
+    /** 목표 값에 도달할 프레임 (AudioContext 샘플 프레임) */
+    endFrame: number;
+    curve: AutomationCurve;
+}
+
+/**
+ * 마스터 브릭월 리미터 설정
+ */
+export interface LimiterSettings {
+    /** 리미터 사용 여부 */
+    enabled: boolean;
+    /** 출력 상한 (dBFS) - 범위: -24 ~ 0 (기본: -1) */
+    ceilingDb?: number;
+    /** 룩어헤드 (ms) - 피크 전에 미리 게인을 줄이는 시간, 범위: 0 ~ 20 (기본: 5, 같은 만큼 지연 발생) */
+    lookaheadMs?: number;
+    /** 릴리즈 시간 (ms) - 게인이 회복되는 속도, 범위: 1 ~ 3000 (기본: 100) */
+    releaseMs?: number;
 }
 
 // 수정된 Track 인터페이스
 export interface Track {
-    data: Float32Array;
+    /** 채널별 샘플 데이터 (모노: 1채널, 스테레오: 2채널, ...) */
+    data: Float32Array[];
     readIndex: number;
     isPlaying: boolean;
     loop: boolean;
@@ -95,6 +221,69 @@ export interface Track {
 // 재생 배속을 포함하는 확장 Track 인터페이스 (필요 시)
 export interface ExtendedTrack extends Track {
     playbackRate: number;
+    /** 템포 배율 (피치 유지, 1 = 원래 속도) */
+    tempo: number;
+    /** 피치 변화 (반음, 템포 유지) */
+    pitch: number;
+    /** 추가 피치 변화 (센트) */
+    cents: number;
+    /** 소스 데이터의 샘플레이트 (엔진 샘플레이트와 다르면 재생 속도를 보정) */
+    sampleRate: number;
+    /** 루프 경계 크로스페이드 길이 (소스 프레임, 0이면 없음) */
+    loopCrossfade: number;
+    /** 루프 구간 시작 (소스 프레임) */
+    loopStart: number;
+    /** 루프 구간 끝 (소스 프레임, 이 위치에 도달하면 loopStart로 되돌아감) */
+    loopEnd: number;
+    /** 남은 루프 반복 횟수 (Infinity면 무한, 0이면 loopEnd를 지나 끝까지 재생) */
+    loopsRemaining: number;
+}
+
+/**
+ * 트랙 데이터를 읽을 때의 보간 품질
+ * - 'linear': 선형 보간 (가장 가벼움, 배속이 1이 아니면 앨리어싱 발생)
+ * - 'cubic': 4점 큐빅 에르미트 보간
+ * - 'sinc': 윈도우드 sinc 보간 (가장 정확, 배속에 맞춰 대역 제한)
+ */
+export type InterpolationQuality = 'linear' | 'cubic' | 'sinc';
+
+/**
+ * 템포/피치 설정 (서로 독립적으로 적용)
+ * - playbackRate는 템포와 피치를 함께 바꾸고, tempo/pitch는 각각 하나만 바꿉니다.
+ */
+export interface TimeStretchSettings {
+    /** 템포 배율 - 피치는 유지, 범위: 0.25 ~ 4 (기본: 1) */
+    tempo?: number;
+    /** 피치 변화 (반음) - 템포는 유지, 범위: -24 ~ 24 (기본: 0) */
+    pitch?: number;
+    /** 추가 피치 변화 (센트, 100센트 = 1반음), 범위: -100 ~ 100 (기본: 0) */
+    cents?: number;
+}
+
+/**
+ * 트랙 재생 위치 보고 (AudioProcessor → 메인 스레드)
+ */
+export interface TrackPosition {
+    /** 현재 재생 위치 (초) */
+    position: number;
+    /** 트랙 전체 길이 (초) */
+    duration: number;
+    /** position이 측정된 시점의 AudioContext 시간 (초) - currentTime과 비교해 보간 가능 */
+    contextTime: number;
+    /** 재생 중 여부 (일시 정지/정지 시 false) */
+    isPlaying: boolean;
+    /** 현재 재생 배속 */
+    playbackRate: number;
+    /** 현재 템포 배율 (재생 위치는 playbackRate × tempo 속도로 진행) */
+    tempo: number;
+}
+
+/**
+ * 트랙 상태 변화 알림 데이터 (AudioProcessor → 메인 스레드)
+ */
+export interface TrackLifecycleData {
+    /** 이벤트가 발생한 AudioContext 시간 (초) */
+    contextTime: number;
 }
 
 export interface VisualizerBand {
@@ -106,12 +295,179 @@ export function isVisualizerBand(obj: unknown): obj is VisualizerBand {
     const record = obj as Record<string, unknown>;
     return typeof record.startFrequency === 'number' && typeof record.endFrequency === 'number';
 }
+
+/**
+ * 비주얼라이저 윈도우 함수
+ */
+export type VisualizerWindowType = 'rectangular' | 'hann' | 'blackman';
+
+/**
+ * 비주얼라이저 분석 설정
+ */
+export interface VisualizerSettings {
+    /** FFT 전에 적용할 윈도우 함수 (기본: 'hann') */
+    window?: VisualizerWindowType;
+    /** 레벨이 올라갈 때의 스무딩 시간 (ms, 기본: 0 = 즉시) */
+    attackMs?: number;
+    /** 레벨이 내려갈 때의 스무딩 시간 (ms, 기본: 0 = 즉시) */
+    decayMs?: number;
+    /** 출력 단위: 'linear'는 사인파 진폭 기준(풀스케일 = 1), 'db'는 dBFS (기본: 'linear') */
+    scale?: 'linear' | 'db';
+    /** 'db' 출력의 하한 (dB, 기본: -100) */
+    minDb?: number;
+}
+/**
+ * 루프 구간 설정
+ * - loopEnd에 도달하면 loopStart로 되돌아가며, loopCount만큼 반복한 뒤에는 loopEnd를 지나 끝까지 재생합니다.
+ * - 구간이 올바르지 않으면 (loopEnd ≤ loopStart) 버퍼 전체를 반복합니다.
+ */
+export interface LoopRegion {
+    /** 루프 구간 시작 (loopUnit 단위, 기본: 0) */
+    loopStart?: number;
+    /** 루프 구간 끝 (loopUnit 단위, 기본: 버퍼 끝, Infinity면 버퍼 끝) */
+    loopEnd?: number;
+    /** loopStart/loopEnd 단위 (기본: 'seconds') */
+    loopUnit?: 'seconds' | 'samples';
+    /** 루프 반복 횟수 (기본: Infinity = 무한) */
+    loopCount?: number;
+}
+
+/**
+ * 'setLoopRegion' 메시지 데이터 (지정한 항목만 변경)
+ */
+export interface LoopRegionMessageData extends LoopRegion {
+    /** 루프 여부 (false면 루프를 빠져나와 끝까지 재생) */
+    loop?: boolean;
+}
+
+/**
+ * 페이드 곡선
+ * - linear: 게인이 선형으로 변화
+ * - equalPower: 사인/코사인 곡선 (크로스페이드 중에도 전체 음량이 일정)
+ * - exponential: dB 기준으로 일정하게 변화 (-60 dB ↔ 0 dB)
+ */
+export type FadeCurve = 'linear' | 'equalPower' | 'exponential';
+
+/**
+ * 'play' 메시지 데이터
+ */
+export interface PlayMessageData extends TimeStretchSettings, LoopRegion {
+    /** 채널별 샘플 데이터 (생략하면 'registerAudio'로 등록한 오디오 데이터를 재생) */
+    channels?: Float32Array[];
+    /** 재생할 등록된 오디오 데이터 ID (기본: 메시지의 key, channels가 없을 때만 사용) */
+    audioId?: string;
+    /** 보이스 ID (기본: 메시지의 key) - 같은 키를 동시에 여러 번 재생할 때 보이스마다 다른 ID 사용 */
+    voiceId?: string;
+    /** 루프 여부 */
+    loop: boolean;
+    /** 재생 배속 (기본: 1) */
+    playbackRate?: number;
+    /** 채널 데이터의 샘플레이트 (기본: 등록된 오디오 데이터의 샘플레이트, 없으면 엔진 샘플레이트) */
+    sampleRate?: number;
+    /** 재생 시작 프레임 (AudioContext 샘플 프레임, 생략 시 즉시 재생) */
+    startFrame?: number;
+    /** 페이드 인 시간 (ms, 기본: 0 = 즉시) */
+    fadeInMs?: number;
+    /** 페이드 곡선 (기본: 'linear') */
+    fadeCurve?: FadeCurve;
+    /** 루프 경계 크로스페이드 시간 (ms, 기본: 0 = 없음, 최대 트랙 길이의 절반) */
+    loopCrossfadeMs?: number;
+}
+
+/**
+ * 'registerAudio' 메시지 데이터 (메시지 key를 ID로 등록, 'clear'로 해제)
+ * 채널 버퍼는 전송(transfer)하거나 SharedArrayBuffer로 공유해 복사 없이 전달합니다.
+ */
+export interface RegisterAudioMessageData {
+    /** 채널별 샘플 데이터 */
+    channels: Float32Array[];
+    /** 채널 데이터의 샘플레이트 */
+    sampleRate: number;
+}
+
+/**
+ * 보이스 스틸링 정책 (키의 동시 재생 수가 최대치일 때 새 보이스를 재생하는 방법)
+ * - oldest: 가장 먼저 시작한 보이스를 정지
+ * - quietest: 현재 가장 작은 보이스를 정지
+ * - reject: 새 보이스를 재생하지 않음
+ */
+export type VoiceStealPolicy = 'oldest' | 'quietest' | 'reject';
+
+/**
+ * 키별 동시 재생(폴리포니) 설정 ('setPolyphony' 메시지 데이터)
+ */
+export interface PolyphonySettings {
+    /** 키당 최대 동시 재생 보이스 수 (1 이상) */
+    maxVoices: number;
+    /** 최대치일 때의 스틸링 정책 (기본: 'oldest') */
+    steal?: VoiceStealPolicy;
+}
+
+/**
+ * 'stop' 메시지 데이터
+ */
+export interface StopMessageData {
+    /** 정지 프레임 (AudioContext 샘플 프레임, 생략 시 즉시 정지) */
+    stopFrame?: number;
+    /** 페이드 아웃 시간 (ms, 기본: 0 = 즉시) - 정지 시점부터 페이드 아웃한 뒤 정지 */
+    fadeOutMs?: number;
+    /** 페이드 곡선 (기본: 'linear') */
+    fadeCurve?: FadeCurve;
+}
+
+/**
+ * playAudio 옵션
+ */
+export interface PlayOptions extends TimeStretchSettings, LoopRegion {
+    /** 루프 여부 (기본: false) */
+    loop?: boolean;
+    /** 재생 배속 (기본: 1) */
+    playbackRate?: number;
+    /** 재생 시작 시각 (AudioContext.currentTime 기준 초, 생략 시 즉시) */
+    when?: number;
+    /** 페이드 인 시간 (ms, 기본: 0 = 즉시) */
+    fadeInMs?: number;
+    /** 페이드 곡선 (기본: 'linear', crossfade는 'equalPower') */
+    fadeCurve?: FadeCurve;
+    /** 루프 경계 크로스페이드 시간 (ms, 기본: 0 = 없음) - 루프 끝부분을 처음 부분과 겹쳐 클릭을 없앰 */
+    loopCrossfadeMs?: number;
+}
+
+/**
+ * stopAudio 옵션
+ */
+export interface StopOptions {
+    /** 정지 시각 (AudioContext.currentTime 기준 초, 생략 시 즉시) */
+    when?: number;
+    /** 페이드 아웃 시간 (ms, 기본: 0 = 즉시) - when 시점부터 페이드 아웃한 뒤 정지 */
+    fadeOutMs?: number;
+    /** 페이드 곡선 (기본: 'linear') */
+    fadeCurve?: FadeCurve;
+}
+
 // AudioProcessor로 전달되는 메시지 타입
 export interface AudioProcessorPostMessage {
     type:
+        | 'registerAudio'
         | 'play'
         | 'stop'
+        | 'pause'
+        | 'resume'
+        | 'seek'
+        | 'setPositionReportInterval'
+        | 'rampParameter'
+        | 'cancelParameterRamps'
+        | 'setParameterSmoothing'
         | 'clear'
+        | 'adjustVolume'
+        | 'adjustPlaybackRate'
+        | 'adjustTimeStretch'
+        | 'setInterpolation'
+        | 'setLoopRegion'
+        | 'setPolyphony'
+        | 'adjustMasterVolume'
+        | 'setLowPassFilter'
+        | 'setLimiter'
         | 'adjustEQ'
         | 'adjustModulation'
         | 'adjustSpatial'
@@ -122,16 +478,57 @@ export interface AudioProcessorPostMessage {
         | 'adjustLatencySamples'
         | 'setVisualizerBands'
         | 'setVisualizerBufferSize'
+        | 'setVisualizerSettings'
+        | 'setMeterInterval'
+        | 'resetMeters'
         | 'adjustNormalize';
     key: string;
     data?:
         | null // 'stop' 또는 'clear' 시
         | EQBand[]
-        | { buffer: Float32Array; loop: boolean; playbackRate?: number } // 재생 시
+        | RegisterAudioMessageData // 오디오 데이터 등록 시
+        | PlayMessageData // 재생 시
+        | StopMessageData // 정지 시
         | ModulationSettings
         | EffectsSettings
         | DriveSettings
         | DynamicsSettings
+        | SpatialSettings
+        | LowPassFilterSettings
+        | LimiterSettings
+        | TimeStretchSettings
+        | LoopRegionMessageData
+        | PolyphonySettings
+        | ParameterRampData
+        | { path?: AutomationPath } // 'cancelParameterRamps'
         | VisualizerBand[]
+        | VisualizerSettings
+        | InterpolationQuality // 'setInterpolation' (null이면 트랙 설정 해제)
+        | number // 볼륨, 배속, 레이턴시, 버퍼 크기, 탐색 위치(초) 등
         | Boolean;
 }
+
+// AudioProcessor에서 메인 스레드로 전달되는 메시지 타입
+export interface AudioProcessorEventMessage {
+    type:
+        | 'latencyReport'
+        | 'visualizerData'
+        | 'position'
+        | 'started'
+        | 'ended'
+        | 'looped'
+        | 'stolen'
+        | 'rejected'
+        | 'gainReduction'
+        | 'meter';
+    key?: string;
+    /** 트랙 이벤트('position', 상태 변화, 'gainReduction')를 보낸 보이스 ID (기본 보이스는 key와 같음) */
+    voiceId?: string;
+    data?:
+        | { latency: number } // 'latencyReport'
+        | number[] // 'visualizerData'
+        | TrackPosition // 'position'
+        | TrackLifecycleData // 'started', 'ended', 'looped', 'stolen', 'rejected'
+        | GainReductionData // 'gainReduction'
+        | MeterData; // 'meter'
+}
@@ -8,3 +8,29 @@ export const removeFileName = (path: string): string => {
 		return path.substring(0, path.lastIndexOf(separator));
 	}
 };
+
+/** 스킴이 있는 절대 URL (http:, https:, data:, blob:, file: 등) */
+const ABSOLUTE_URL = /^[a-z][a-z\d+.-]*:/i;
+
+/**
+ * 파일 경로를 baseUrl 기준의 절대 URL로 변환합니다.
+ * - 절대 URL(data:, blob: 포함)은 그대로 반환합니다.
+ * - 표준 URL 규칙을 따릅니다. baseUrl은 '/'로 끝날 때만 디렉터리로 취급하고, 아니면 마지막 경로를 제거합니다.
+ * - 상대 baseUrl은 문서 URL 기준으로 해석합니다. (Blob URL Worker에서는 상대 경로를 해석할 수 없으므로 메인 스레드에서 변환)
+ * @param path - fileMap의 파일 경로 또는 URL
+ * @param baseUrl - 기준 URL (빈 문자열이면 문서 URL)
+ * @param documentUrl - 상대 baseUrl의 기준 (기본: location.href)
+ * @returns 절대 URL, 해석할 수 없으면 path 그대로
+ */
+export const resolveUrl = (
+	path: string,
+	baseUrl: string = "",
+	documentUrl: string | undefined = globalThis.location?.href
+): string => {
+	if (ABSOLUTE_URL.test(path)) return path;
+	try {
+		return new URL(path, new URL(baseUrl || ".", documentUrl)).href;
+	} catch {
+		return path;
+	}
+};
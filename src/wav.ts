@@ -0,0 +1,102 @@
+/** WAV 샘플 형식 (16/24비트 정수 PCM, 32비트 부동소수점) */
+export type WavFormat = "pcm16" | "pcm24" | "float32";
+
+export interface WavEncodeOptions {
+	/** 샘플 형식 (기본: "pcm16") */
+	format?: WavFormat;
+}
+
+/** WAV로 인코딩할 수 있는 오디오 데이터 (AudioBuffer 호환) */
+export type WavSource = Pick<
+	AudioBuffer,
+	"numberOfChannels" | "sampleRate" | "length" | "getChannelData"
+>;
+
+/**
+ * 오디오 버퍼를 WAV 파일(Blob)로 인코딩합니다.
+ * 정수 PCM은 -1 ~ 1 범위를 벗어난 샘플을 잘라냅니다.
+ * @param buffer - 인코딩할 AudioBuffer (예: renderOffline 결과)
+ * @param options - 인코딩 옵션 (format)
+ * @returns "audio/wav" 타입의 Blob
+ */
+export const encodeWav = (
+	buffer: WavSource,
+	options: WavEncodeOptions = {}
+): Blob => {
+	const format = options.format ?? "pcm16";
+	const bytesPerSample = format === "pcm16" ? 2 : format === "pcm24" ? 3 : 4;
+	const channelCount = buffer.numberOfChannels;
+	const blockAlign = channelCount * bytesPerSample;
+	const dataSize = buffer.length * blockAlign;
+	// 정수 PCM이 아니면 fmt 청크에 확장 크기(cbSize)를 넣고 fact 청크를 추가합니다.
+	const float = format === "float32";
+	const fmtSize = float ? 18 : 16;
+	const headerSize = 20 + fmtSize + (float ? 12 : 0) + 8;
+
+	const view = new DataView(new ArrayBuffer(headerSize + dataSize));
+	const writeString = (offset: number, value: string) => {
+		for (let i = 0; i < value.length; i++) {
+			view.setUint8(offset + i, value.charCodeAt(i));
+		}
+	};
+
+	// RIFF 헤더
+	writeString(0, "RIFF");
+	view.setUint32(4, headerSize - 8 + dataSize, true);
+	writeString(8, "WAVE");
+	// fmt 청크 (1: 정수 PCM, 3: IEEE 부동소수점)
+	writeString(12, "fmt ");
+	view.setUint32(16, fmtSize, true);
+	view.setUint16(20, float ? 3 : 1, true);
+	view.setUint16(22, channelCount, true);
+	view.setUint32(24, buffer.sampleRate, true);
+	view.setUint32(28, buffer.sampleRate * blockAlign, true);
+	view.setUint16(32, blockAlign, true);
+	view.setUint16(34, bytesPerSample * 8, true);
+	let offset = 20 + fmtSize;
+	if (float) {
+		// cbSize (확장 정보 없음)
+		view.setUint16(36, 0, true);
+		// fact 청크 (채널당 샘플 프레임 수)
+		writeString(offset, "fact");
+		view.setUint32(offset + 4, 4, true);
+		view.setUint32(offset + 8, buffer.length, true);
+		offset += 12;
+	}
+	// data 청크 (채널 인터리브)
+	writeString(offset, "data");
+	view.setUint32(offset + 4, dataSize, true);
+	offset += 8;
+
+	const channels: Float32Array[] = [];
+	for (let c = 0; c < channelCount; c++) {
+		channels.push(buffer.getChannelData(c));
+	}
+	for (let i = 0; i < buffer.length; i++) {
+		for (let c = 0; c < channelCount; c++) {
+			const sample = channels[c][i];
+			if (float) {
+				view.setFloat32(offset, sample, true);
+			} else {
+				const clamped = Math.max(-1, Math.min(1, sample));
+				if (format === "pcm16") {
+					view.setInt16(
+						offset,
+						Math.round(clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff),
+						true
+					);
+				} else {
+					const value = Math.round(
+						clamped < 0 ? clamped * 0x800000 : clamped * 0x7fffff
+					);
+					view.setUint8(offset, value & 0xff);
+					view.setUint8(offset + 1, (value >> 8) & 0xff);
+					view.setUint8(offset + 2, (value >> 16) & 0xff);
+				}
+			}
+			offset += bytesPerSample;
+		}
+	}
+
+	return new Blob([view.buffer], { type: "audio/wav" });
+};
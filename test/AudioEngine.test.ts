@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest';
+import { getEQFrequencyResponse } from '../src/biquad';
+import { EQBand, GainReductionData, TrackLifecycleData } from '../src/types';
+import { createEngine, energy, impulse, peak, playDry, render, SAMPLE_RATE, sine, toDb } from './helpers';
+
+describe('AudioEngine', () => {
+    describe('mixing', () => {
+        it('plays a mono track on every output channel', () => {
+            const { engine } = createEngine();
+            playDry(engine, 'a', [sine(1000, SAMPLE_RATE)]);
+            const [left, right] = render(engine, 4800);
+            expect(peak(left)).toBeCloseTo(1, 2);
+            expect(Array.from(right)).toEqual(Array.from(left));
+        });
+
+        it('keeps stereo channels separate', () => {
+            const { engine } = createEngine();
+            playDry(engine, 'a', [sine(1000, 4800), new Float32Array(4800)]);
+            const [left, right] = render(engine, 4800);
+            expect(peak(left)).toBeGreaterThan(0.9);
+            expect(peak(right)).toBe(0);
+        });
+
+        it('reports started and ended events', () => {
+            const { engine, events } = createEngine();
+            playDry(engine, 'a', [sine(1000, 1000)]);
+            render(engine, 2048);
+            const lifecycle = events.filter((event) => event.type === 'started' || event.type === 'ended');
+            expect(lifecycle.map((event) => event.type)).toEqual(['started', 'ended']);
+            // 마지막 샘플을 읽은 시점 (1샘플 이내)
+            expect((lifecycle[1].data as TrackLifecycleData).contextTime).toBeCloseTo(1000 / SAMPLE_RATE, 4);
+        });
+
+        it('keeps playing until a restart scheduled in the middle of a block', () => {
+            const { engine } = createEngine();
+            playDry(engine, 'a', [new Float32Array(4800).fill(0.5)]);
+            render(engine, 128);
+            const channels = [new Float32Array(4800).fill(0.25)];
+            engine.handleMessage({ type: 'play', key: 'a', data: { channels, loop: false, startFrame: 128 + 64 } });
+            const [left] = render(engine, 128);
+            expect(Array.from(left.subarray(0, 64))).toEqual(new Array(64).fill(0.5));
+            expect(left[64]).not.toBe(0.5);
+            expect(left[64]).toBeGreaterThan(0);
+        });
+    });
+
+    describe('EQ', () => {
+        const measure = (bands: EQBand[], frequency: number): number => {
+            const { engine } = createEngine();
+            playDry(engine, 'a', [sine(frequency, SAMPLE_RATE)]);
+            engine.handleMessage({ type: 'adjustEQ', key: 'a', data: bands });
+            const [left] = render(engine, SAMPLE_RATE / 2);
+            // 필터 과도 응답이 지난 뒤의 정상 상태 진폭
+            return toDb(peak(left, SAMPLE_RATE / 4));
+        };
+
+        it('boosts a peaking band by its gain at the center frequency', () => {
+            const bands: EQBand[] = [{ frequency: 1000, gain: 6, type: 'peaking' }];
+            const [expected] = getEQFrequencyResponse(bands, [1000], SAMPLE_RATE);
+            expect(measure(bands, 1000)).toBeCloseTo(6, 1);
+            expect(measure(bands, 1000)).toBeCloseTo(expected, 1);
+        });
+
+        it('leaves frequencies far from a peaking band untouched', () => {
+            expect(measure([{ frequency: 8000, gain: 12, type: 'peaking' }], 100)).toBeCloseTo(0, 1);
+        });
+
+        it('attenuates below a highpass cutoff', () => {
+            expect(measure([{ frequency: 2000, gain: 0, type: 'highpass' }], 100)).toBeLessThan(-40);
+        });
+    });
+
+    describe('delay', () => {
+        it('repeats an impulse after the delay time with feedback', () => {
+            const { engine } = createEngine();
+            playDry(engine, 'a', [impulse(SAMPLE_RATE)]);
+            engine.handleMessage({ type: 'adjustEffects', key: 'a', data: { delay: 100, reverb: 0, echo: 0, loop: false } });
+            const [left] = render(engine, 12000);
+            const delaySamples = SAMPLE_RATE / 10;
+            expect(left[0]).toBeCloseTo(0.7, 5);
+            expect(left[delaySamples]).toBeCloseTo(0.5, 5);
+            expect(left[2 * delaySamples]).toBeCloseTo(0.15, 5);
+            expect(peak(left, 1, delaySamples)).toBe(0);
+        });
+    });
+
+    describe('reverb', () => {
+        it('produces a finite, decaying tail from an impulse', () => {
+            const { engine } = createEngine();
+            playDry(engine, 'a', [impulse(2 * SAMPLE_RATE)]);
+            engine.handleMessage({ type: 'adjustEffects', key: 'a', data: { delay: 0, reverb: 0.5, echo: 0, loop: false } });
+            const [left] = render(engine, 2 * SAMPLE_RATE);
+            const early = energy(left, 4800, 9600);
+            const late = energy(left, 72000, 76800);
+            expect(left.every(Number.isFinite)).toBe(true);
+            expect(early).toBeGreaterThan(0);
+            expect(late).toBeLessThan(early / 10);
+        });
+    });
+
+    describe('compressor', () => {
+        it('reduces a full-scale sine according to threshold and ratio', () => {
+            const { engine, events } = createEngine();
+            playDry(engine, 'a', [sine(1000, SAMPLE_RATE)]);
+            engine.handleMessage({
+                type: 'adjustDynamics',
+                key: 'a',
+                data: { threshold: -12, ratio: 4, kneeDb: 0, attackMs: 1, releaseMs: 50 },
+            });
+            const [left] = render(engine, SAMPLE_RATE / 2);
+            // 0dB 입력: -12 + 12 / 4 = -9dB
+            expect(toDb(peak(left, SAMPLE_RATE / 4))).toBeCloseTo(-9, 0);
+
+            const reports = events.filter((event) => event.type === 'gainReduction' && event.key === 'a');
+            expect(reports.length).toBeGreaterThan(0);
+            expect((reports[reports.length - 1].data as GainReductionData).gainReductionDb).toBeCloseTo(9, 0);
+        });
+
+        it('adds makeup gain below the threshold', () => {
+            const { engine } = createEngine();
+            playDry(engine, 'a', [sine(1000, SAMPLE_RATE, 0.1)]);
+            engine.handleMessage({ type: 'adjustDynamics', key: 'a', data: { threshold: -6, ratio: 4, makeupDb: 6 } });
+            const [left] = render(engine, SAMPLE_RATE / 4);
+            expect(toDb(peak(left, SAMPLE_RATE / 8) / 0.1)).toBeCloseTo(6, 1);
+        });
+    });
+
+    describe('visualizer', () => {
+        it('reports the master spectrum per band', () => {
+            const { engine, events } = createEngine();
+            engine.handleMessage({
+                type: 'setVisualizerBands',
+                key: '',
+                data: [
+                    { startFrequency: 900, endFrequency: 1100 },
+                    { startFrequency: 4000, endFrequency: 6000 },
+                ],
+            });
+            engine.handleMessage({ type: 'setVisualizerBufferSize', key: '', data: 2048 });
+            engine.handleMessage({ type: 'setVisualizerSettings', key: '', data: { scale: 'db' } });
+            playDry(engine, 'a', [sine(1000, SAMPLE_RATE)]);
+            render(engine, 8192);
+
+            const frames = events.filter((event) => event.type === 'visualizerData');
+            expect(frames).toHaveLength(4);
+            const [inBand, outOfBand] = frames[frames.length - 1].data as number[];
+            expect(inBand).toBeCloseTo(0, 1);
+            expect(outOfBand).toBeLessThan(-60);
+        });
+
+        it('analyzes a track separately from the master when bands are set for its key', () => {
+            const { engine, events } = createEngine();
+            engine.handleMessage({ type: 'adjustMasterVolume', key: '', data: 0.5 });
+            engine.handleMessage({ type: 'setVisualizerSettings', key: '', data: { scale: 'db' } });
+            engine.handleMessage({ type: 'setVisualizerBands', key: 'a', data: [{ startFrequency: 500, endFrequency: 2000 }] });
+            engine.handleMessage({ type: 'setVisualizerBands', key: '', data: [{ startFrequency: 500, endFrequency: 2000 }] });
+            playDry(engine, 'a', [sine(1000, SAMPLE_RATE)]);
+            render(engine, 4096);
+
+            const last = (key: string) =>
+                (events.filter((event) => event.type === 'visualizerData' && event.key === key).pop()!.data as number[])[0];
+            expect(last('a') - last('')).toBeCloseTo(6.02, 1);
+        });
+    });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { TrackLifecycleData } from '../src/types';
+import { createEngine, render, SAMPLE_RATE } from './helpers';
+
+function constant(value: number, length: number): Float32Array {
+    return new Float32Array(length).fill(value);
+}
+
+describe('registered audio data', () => {
+    it('plays registered data by key without sending channels', () => {
+        const { engine } = createEngine();
+        engine.handleMessage({ type: 'registerAudio', key: 'a', data: { channels: [constant(0.25, 4800)], sampleRate: SAMPLE_RATE } });
+        engine.handleMessage({ type: 'play', key: 'a', data: { loop: false } });
+        engine.handleMessage({ type: 'adjustDynamics', key: 'a', data: { threshold: 0, ratio: 1 } });
+        expect(render(engine, 128)[0][64]).toBeCloseTo(0.25, 6);
+    });
+
+    it('shares one registration between voices and track keys', () => {
+        const { engine } = createEngine();
+        engine.handleMessage({ type: 'registerAudio', key: 'shot', data: { channels: [constant(0.1, 4800)], sampleRate: SAMPLE_RATE } });
+        engine.handleMessage({ type: 'play', key: 'shot', data: { loop: false, voiceId: 'shot#1' } });
+        engine.handleMessage({ type: 'play', key: 'shot', data: { loop: false, voiceId: 'shot#2' } });
+        engine.handleMessage({ type: 'play', key: 'copy', data: { loop: false, audioId: 'shot' } });
+        for (const key of ['shot', 'copy']) {
+            engine.handleMessage({ type: 'adjustDynamics', key, data: { threshold: 0, ratio: 1 } });
+        }
+        expect(render(engine, 128)[0][64]).toBeCloseTo(0.3, 6);
+    });
+
+    it('uses the registered sample rate', () => {
+        const { engine, events } = createEngine();
+        engine.handleMessage({ type: 'registerAudio', key: 'a', data: { channels: [constant(0.5, 22050)], sampleRate: 44100 } });
+        engine.handleMessage({ type: 'play', key: 'a', data: { loop: false } });
+        render(engine, SAMPLE_RATE);
+        const ended = events.find((event) => event.type === 'ended')!;
+        expect((ended.data as TrackLifecycleData).contextTime).toBeCloseTo(0.5, 3);
+    });
+
+    it('frees the data on clear', () => {
+        const { engine, events } = createEngine();
+        engine.handleMessage({ type: 'registerAudio', key: 'a', data: { channels: [constant(0.5, 4800)], sampleRate: SAMPLE_RATE } });
+        engine.handleMessage({ type: 'clear', key: 'a', data: null });
+        engine.handleMessage({ type: 'play', key: 'a', data: { loop: false } });
+        expect(render(engine, 128)[0].every((sample) => sample === 0)).toBe(true);
+        expect(events.some((event) => event.type === 'started')).toBe(false);
+    });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { EffectsSettings } from '../src/types';
+import { createEngine, impulse, playDry, render } from './helpers';
+
+function constant(value: number, length: number): Float32Array {
+    return new Float32Array(length).fill(value);
+}
+
+describe('parameter automation', () => {
+    it('ramps the volume on every sample', () => {
+        const { engine } = createEngine();
+        playDry(engine, 'a', [constant(1, 9600)]);
+        engine.handleMessage({ type: 'rampParameter', key: 'a', data: { path: 'volume', value: 0, endFrame: 4800, curve: 'linear' } });
+        const [left] = render(engine, 4800);
+        for (const i of [1, 17, 1000, 4799]) {
+            expect(left[i]).toBeCloseTo(1 - i / 4800, 5);
+        }
+    });
+
+    it('updates other parameters at control rate', () => {
+        const { engine } = createEngine();
+        playDry(engine, 'a', [constant(0.5, 9600)]);
+        engine.handleMessage({ type: 'rampParameter', key: 'a', data: { path: 'spatial.pan', value: 1, endFrame: 4800, curve: 'linear' } });
+        const [left] = render(engine, 4800);
+        // 32프레임 구간 안에서는 같은 값, 구간마다 감소
+        for (let i = 32; i < 4800; i += 32) {
+            expect(left[i + 31]).toBe(left[i]);
+            expect(left[i]).toBeLessThan(left[i - 1]);
+        }
+    });
+
+    it('keeps volume automation per sample alongside other lanes', () => {
+        const { engine } = createEngine();
+        playDry(engine, 'a', [constant(1, 9600)]);
+        engine.handleMessage({ type: 'rampParameter', key: 'a', data: { path: 'volume', value: 0, endFrame: 4800, curve: 'linear' } });
+        engine.handleMessage({ type: 'rampParameter', key: 'a', data: { path: 'drive.distortion', value: 0, endFrame: 4800, curve: 'linear' } });
+        const [left] = render(engine, 4800);
+        for (const i of [1, 17, 1000, 4799]) {
+            expect(left[i]).toBeCloseTo(1 - i / 4800, 5);
+        }
+    });
+
+    it('does not modify the settings object passed to adjust*', () => {
+        const { engine } = createEngine();
+        playDry(engine, 'a', [constant(0.5, 9600)]);
+        engine.handleMessage({ type: 'setParameterSmoothing', key: '', data: 20 });
+        const effects: EffectsSettings = { delay: 0, reverb: 0.5, echo: 0, loop: false };
+        engine.handleMessage({ type: 'adjustEffects', key: 'a', data: effects });
+        render(engine, 128);
+        expect(effects.reverb).toBe(0.5);
+    });
+
+    it('applies delay times at once instead of gliding them', () => {
+        const { engine } = createEngine();
+        playDry(engine, 'a', [impulse(9600)]);
+        engine.handleMessage({ type: 'setParameterSmoothing', key: '', data: 1000 });
+        engine.handleMessage({ type: 'adjustEffects', key: 'a', data: { delay: 100, reverb: 0, echo: 0, loop: false } });
+        const [left] = render(engine, 9600);
+        // 지연된 임펄스가 정확히 100ms 뒤에 한 번만 나타남
+        expect(left[4800]).toBeCloseTo(0.5, 6);
+        expect(left.filter((sample) => sample !== 0)).toHaveLength(2);
+    });
+});
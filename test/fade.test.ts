@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { AudioEngine } from '../src/AudioEngine';
+import { PlayMessageData, TrackPosition } from '../src/types';
+import { createEngine, render, SAMPLE_RATE } from './helpers';
+
+/**
+ * 옵션과 함께 재생하고 기본 컴프레서를 끕니다.
+ */
+function play(engine: AudioEngine, key: string, data: PlayMessageData): void {
+    engine.handleMessage({ type: 'play', key, data });
+    engine.handleMessage({ type: 'adjustDynamics', key, data: { threshold: 0, ratio: 1 } });
+}
+
+function constant(value: number, length: number): Float32Array {
+    return new Float32Array(length).fill(value);
+}
+
+/**
+ * 인접 샘플 간 최대 변화량
+ */
+function maxJump(samples: Float32Array): number {
+    let max = 0;
+    for (let i = 1; i < samples.length; i++) {
+        max = Math.max(max, Math.abs(samples[i] - samples[i - 1]));
+    }
+    return max;
+}
+
+describe('fades', () => {
+    it('fades in along the chosen curve', () => {
+        const { engine } = createEngine();
+        play(engine, 'a', { channels: [constant(0.5, SAMPLE_RATE)], loop: false, fadeInMs: 100 });
+        const [left] = render(engine, SAMPLE_RATE / 5);
+        expect(left[0]).toBe(0);
+        expect(left[2400]).toBeCloseTo(0.25, 3);
+        expect(left[4800]).toBeCloseTo(0.5, 6);
+        expect(left[9000]).toBeCloseTo(0.5, 6);
+
+        const equalPower = createEngine().engine;
+        play(equalPower, 'a', { channels: [constant(0.5, SAMPLE_RATE)], loop: false, fadeInMs: 100, fadeCurve: 'equalPower' });
+        expect(render(equalPower, 4800)[0][2400]).toBeCloseTo(0.5 * Math.SQRT1_2, 3);
+    });
+
+    it('fades out from the stop time and then stops', () => {
+        const { engine, events } = createEngine();
+        play(engine, 'a', { channels: [constant(0.5, SAMPLE_RATE)], loop: true });
+        render(engine, 1280);
+        engine.handleMessage({ type: 'stop', key: 'a', data: { fadeOutMs: 50 } });
+        const [left] = render(engine, 4800);
+        expect(left[0]).toBeCloseTo(0.5, 6);
+        expect(left[1200]).toBeCloseTo(0.25, 3);
+        expect(left.subarray(2400).every((sample) => sample === 0)).toBe(true);
+        const positions = events.filter((event) => event.type === 'position');
+        const last = positions[positions.length - 1].data as TrackPosition;
+        expect(last.isPlaying).toBe(false);
+        expect(last.position).toBe(0);
+    });
+
+    it('starts a scheduled fade-out on the stop frame', () => {
+        const { engine } = createEngine();
+        play(engine, 'a', { channels: [constant(0.5, SAMPLE_RATE)], loop: true });
+        engine.handleMessage({ type: 'stop', key: 'a', data: { stopFrame: 1000, fadeOutMs: 10 } });
+        const [left] = render(engine, 2048);
+        expect(left[999]).toBeCloseTo(0.5, 6);
+        expect(left[1240]).toBeCloseTo(0.25, 3);
+        expect(left[1500]).toBe(0);
+    });
+
+    it('keeps total power constant through an equal-power crossfade', () => {
+        const { engine } = createEngine();
+        play(engine, 'a', { channels: [constant(0.5, SAMPLE_RATE), constant(0, SAMPLE_RATE)], loop: true });
+        engine.handleMessage({ type: 'stop', key: 'a', data: { fadeOutMs: 100, fadeCurve: 'equalPower' } });
+        play(engine, 'b', {
+            channels: [constant(0, SAMPLE_RATE), constant(0.5, SAMPLE_RATE)],
+            loop: true,
+            fadeInMs: 100,
+            fadeCurve: 'equalPower',
+        });
+        const [left, right] = render(engine, 4800);
+        for (const i of [0, 1200, 2400, 3600]) {
+            expect(left[i] * left[i] + right[i] * right[i]).toBeCloseTo(0.25, 4);
+        }
+    });
+
+    it('crossfades across the loop seam', () => {
+        // 끝에서 처음으로 돌아갈 때 1 → 0으로 뛰는 램프
+        const ramp = new Float32Array(4800);
+        for (let i = 0; i < ramp.length; i++) ramp[i] = i / ramp.length;
+
+        const cut = createEngine().engine;
+        play(cut, 'a', { channels: [ramp], loop: true });
+        expect(maxJump(render(cut, 9600)[0])).toBeGreaterThan(0.9);
+
+        const smooth = createEngine().engine;
+        play(smooth, 'a', { channels: [ramp], loop: true, loopCrossfadeMs: 20 });
+        expect(maxJump(render(smooth, 9600)[0])).toBeLessThan(0.01);
+    });
+});
@@ -0,0 +1,91 @@
+import { AudioEngine } from '../src/AudioEngine';
+import { AudioProcessorEventMessage } from '../src/types';
+
+export const SAMPLE_RATE = 48000;
+export const BLOCK_SIZE = 128;
+
+/**
+ * 사인파 생성
+ */
+export function sine(frequency: number, length: number, amplitude: number = 1): Float32Array {
+    const samples = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+        samples[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+    }
+    return samples;
+}
+
+/**
+ * 첫 샘플만 1인 임펄스 생성
+ */
+export function impulse(length: number): Float32Array {
+    const samples = new Float32Array(length);
+    samples[0] = 1;
+    return samples;
+}
+
+/**
+ * 구간 [from, to)의 최대 절댓값
+ */
+export function peak(samples: Float32Array, from: number = 0, to: number = samples.length): number {
+    let max = 0;
+    for (let i = from; i < to; i++) {
+        max = Math.max(max, Math.abs(samples[i]));
+    }
+    return max;
+}
+
+/**
+ * 구간 [from, to)의 에너지 (제곱합)
+ */
+export function energy(samples: Float32Array, from: number, to: number): number {
+    let sum = 0;
+    for (let i = from; i < to; i++) {
+        sum += samples[i] * samples[i];
+    }
+    return sum;
+}
+
+export function toDb(value: number): number {
+    return 20 * Math.log10(value);
+}
+
+/**
+ * 테스트용 엔진 생성: 스무딩 없이, 마스터 볼륨 1로 설정하고 이벤트를 수집합니다.
+ */
+export function createEngine(): { engine: AudioEngine; events: AudioProcessorEventMessage[] } {
+    const events: AudioProcessorEventMessage[] = [];
+    const engine = new AudioEngine(SAMPLE_RATE, (message) => events.push(message));
+    engine.handleMessage({ type: 'setParameterSmoothing', key: '', data: 0 });
+    engine.handleMessage({ type: 'adjustMasterVolume', key: '', data: 1 });
+    return { engine, events };
+}
+
+/**
+ * 트랙을 재생하고 기본 컴프레서를 끕니다. (재생 시 트랙 설정이 기본값으로 초기화되므로 재생 후 설정)
+ */
+export function playDry(engine: AudioEngine, key: string, channels: Float32Array[], loop: boolean = false): void {
+    engine.handleMessage({ type: 'play', key, data: { channels, loop } });
+    engine.handleMessage({ type: 'adjustDynamics', key, data: { threshold: 0, ratio: 1 } });
+}
+
+/**
+ * 블록 단위로 렌더링한 결과를 채널별로 이어 붙여 반환합니다.
+ */
+export function render(engine: AudioEngine, length: number, channelCount: number = 2): Float32Array[] {
+    const result: Float32Array[] = [];
+    for (let c = 0; c < channelCount; c++) {
+        result.push(new Float32Array(length));
+    }
+    for (let offset = 0; offset < length; offset += BLOCK_SIZE) {
+        const output: Float32Array[] = [];
+        for (let c = 0; c < channelCount; c++) {
+            output.push(new Float32Array(BLOCK_SIZE));
+        }
+        engine.process(output);
+        for (let c = 0; c < channelCount; c++) {
+            result[c].set(output[c].subarray(0, Math.min(BLOCK_SIZE, length - offset)), offset);
+        }
+    }
+    return result;
+}
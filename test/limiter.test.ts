@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { BrickwallLimiter } from '../src/limiter';
+import { peak, SAMPLE_RATE, sine, toDb } from './helpers';
+
+describe('BrickwallLimiter', () => {
+    it('never exceeds the ceiling, including sudden peaks', () => {
+        const limiter = new BrickwallLimiter(SAMPLE_RATE);
+        limiter.configure({ enabled: true, ceilingDb: -1, lookaheadMs: 5, releaseMs: 50 });
+        const signal = sine(440, SAMPLE_RATE, 0.5);
+        signal[24000] = 3;
+        for (let i = 30000; i < SAMPLE_RATE; i++) signal[i] *= 4;
+        const channels = [signal, Float32Array.from(signal)];
+        for (let offset = 0; offset < SAMPLE_RATE; offset += 128) {
+            limiter.process(channels.map((channel) => channel.subarray(offset, offset + 128)));
+        }
+        const ceiling = Math.pow(10, -1 / 20);
+        expect(peak(channels[0])).toBeLessThanOrEqual(ceiling);
+        expect(toDb(peak(channels[0], 40000))).toBeCloseTo(-1, 1);
+        expect(limiter.takeGainReductionDb()).toBeGreaterThan(0);
+    });
+
+    it('delays the signal by the lookahead time without changing quiet material', () => {
+        const limiter = new BrickwallLimiter(SAMPLE_RATE);
+        limiter.configure({ enabled: true, lookaheadMs: 1 });
+        const signal = new Float32Array(256);
+        signal[0] = 0.5;
+        limiter.process([signal]);
+        expect(signal[48]).toBeCloseTo(0.5, 6);
+        expect(peak(signal, 0, 48)).toBe(0);
+    });
+});
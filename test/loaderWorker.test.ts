@@ -0,0 +1,189 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AudioLoaderWorker } from '../src/AudioLoader.worker';
+import { LoadErrorDetail, LoadWarningDetail } from '../src/AudioPreloader';
+
+interface WorkerMessage {
+    type: string;
+    payload: unknown;
+}
+
+/** Worker가 보내는 메시지 타입별 payload (테스트에서 확인하는 필드만) */
+interface WorkerPayloads {
+    PROGRESS: { batchId: number; key: string; loadedCount: number; total: number };
+    LOADED: { batchId: number; key: string; url: string; cached: boolean };
+    ERROR: LoadErrorDetail;
+    WARNING: LoadWarningDetail;
+    DONE: { batchId: number; total: number; cancelled: boolean };
+    CACHE_RESULT: { requestId: number; result?: boolean[]; error?: string };
+}
+
+const BASE = 'https://cdn.example.com/';
+
+/**
+ * Worker 코드를 현재 스레드에서 실행합니다.
+ * @returns 메시지를 보내고 처리가 끝날 때까지 기다리는 함수와 Worker가 보낸 메시지 목록
+ */
+function startWorker(): { send: (type: string, payload: object) => Promise<void>; messages: WorkerMessage[] } {
+    const messages: WorkerMessage[] = [];
+    const scope = {
+        onmessage: null as ((event: { data: WorkerMessage }) => Promise<void>) | null,
+        postMessage: (message: WorkerMessage) => messages.push(message),
+    };
+    vi.stubGlobal('self', scope);
+    AudioLoaderWorker();
+    return { send: (type, payload) => scope.onmessage!({ data: { type, payload } }), messages };
+}
+
+/**
+ * URL마다 응답 상태 목록을 차례로 돌려주는 fetch (목록이 끝나면 마지막 상태 반복, 기본 200)
+ */
+function mockFetch(statuses: Record<string, (number | Error)[]> = {}, size: number = 100) {
+    const counts = new Map<string, number>();
+    return vi.fn(async (url: string) => {
+        const count = counts.get(url) ?? 0;
+        counts.set(url, count + 1);
+        const list = statuses[url] ?? [200];
+        const status = list[Math.min(count, list.length - 1)];
+        if (status instanceof Error) throw status;
+        return new Response(status === 200 ? new Uint8Array(size) : 'error', {
+            status,
+            headers: { 'Content-Length': String(size) },
+        });
+    });
+}
+
+function fileMap(...keys: string[]): Record<string, string> {
+    return Object.fromEntries(keys.map((key) => [key, BASE + key]));
+}
+
+/**
+ * 한 타입의 메시지 payload 목록
+ */
+function ofType<T extends keyof WorkerPayloads>(messages: WorkerMessage[], type: T): WorkerPayloads[T][] {
+    return messages.filter((message) => message.type === type).map((message) => message.payload as WorkerPayloads[T]);
+}
+
+describe('loader worker', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    describe('retries', () => {
+        it('retries 408, 429 and 5xx responses', async () => {
+            for (const status of [408, 429, 500, 503]) {
+                const fetch = mockFetch({ [BASE + 'a']: [status, 200] });
+                vi.stubGlobal('fetch', fetch);
+                const { send, messages } = startWorker();
+                await send('LOAD_AUDIO', { batchId: 1, fileMap: fileMap('a'), retryDelayMs: 1 });
+                expect(fetch).toHaveBeenCalledTimes(2);
+                expect(ofType(messages, 'LOADED')).toHaveLength(1);
+                expect(ofType(messages, 'ERROR')).toHaveLength(0);
+            }
+        });
+
+        it('fails at once on other client errors', async () => {
+            const fetch = mockFetch({ [BASE + 'a']: [404] });
+            vi.stubGlobal('fetch', fetch);
+            const { send, messages } = startWorker();
+            await send('LOAD_AUDIO', { batchId: 1, fileMap: fileMap('a'), retryDelayMs: 1 });
+            expect(fetch).toHaveBeenCalledTimes(1);
+            expect(ofType(messages, 'ERROR')[0].message).toContain('HTTP error 404');
+        });
+
+        it('retries network errors up to the retry limit', async () => {
+            const fetch = mockFetch({ [BASE + 'a']: [new TypeError('Failed to fetch')] });
+            vi.stubGlobal('fetch', fetch);
+            const { send, messages } = startWorker();
+            await send('LOAD_AUDIO', { batchId: 1, fileMap: fileMap('a'), retries: 2, retryDelayMs: 1 });
+            expect(fetch).toHaveBeenCalledTimes(3);
+            expect(ofType(messages, 'WARNING').map((warning) => warning.message)).toEqual([
+                'Retry 1/2: TypeError: Failed to fetch',
+                'Retry 2/2: TypeError: Failed to fetch',
+            ]);
+            expect(ofType(messages, 'ERROR')).toHaveLength(1);
+            expect(ofType(messages, 'DONE')[0]).toMatchObject({ batchId: 1, cancelled: false });
+        });
+
+        it('aborts a stalled download after the timeout', async () => {
+            // 응답 없이 중단 신호만 기다리는 fetch
+            const fetch = vi.fn(
+                (_url: string, init: RequestInit) =>
+                    new Promise<Response>((_resolve, reject) => {
+                        init.signal!.addEventListener('abort', () => reject(init.signal!.reason));
+                    })
+            );
+            vi.stubGlobal('fetch', fetch);
+            const { send, messages } = startWorker();
+            await send('LOAD_AUDIO', { batchId: 1, fileMap: fileMap('a'), retries: 1, retryDelayMs: 1, timeoutMs: 20 });
+            expect(fetch).toHaveBeenCalledTimes(2);
+            expect(ofType(messages, 'ERROR')[0].message).toContain('Timeout after 20ms');
+        });
+    });
+
+    describe('download pool', () => {
+        it('starts higher priority files first', async () => {
+            const fetch = mockFetch();
+            vi.stubGlobal('fetch', fetch);
+            const { send, messages } = startWorker();
+            await send('LOAD_AUDIO', {
+                batchId: 1,
+                fileMap: fileMap('a', 'b', 'c', 'd'),
+                concurrency: 1,
+                priorities: { c: 10, b: 5 },
+            });
+            expect(fetch.mock.calls.map(([url]) => url)).toEqual([BASE + 'c', BASE + 'b', BASE + 'a', BASE + 'd']);
+            expect(ofType(messages, 'PROGRESS').map((progress) => progress.key)).toEqual(['c', 'b', 'a', 'd']);
+        });
+
+        it('keeps at most concurrency downloads in flight', async () => {
+            let inFlight = 0;
+            let maxInFlight = 0;
+            vi.stubGlobal(
+                'fetch',
+                vi.fn(async () => {
+                    maxInFlight = Math.max(maxInFlight, ++inFlight);
+                    await new Promise((resolve) => setTimeout(resolve, 5));
+                    inFlight--;
+                    return new Response(new Uint8Array(10));
+                })
+            );
+            const { send, messages } = startWorker();
+            await send('LOAD_AUDIO', { batchId: 1, fileMap: fileMap('a', 'b', 'c', 'd', 'e'), concurrency: 2 });
+            expect(maxInFlight).toBe(2);
+            expect(ofType(messages, 'LOADED')).toHaveLength(5);
+        });
+    });
+
+    describe('persistent cache', () => {
+        let now = 0;
+        const cache = { version: '1', format: 'bytes', quotaBytes: 250, dbName: 'lru-test', revalidate: false };
+
+        beforeEach(() => {
+            // lastAccess가 작업마다 달라지도록 시계를 1ms씩 진행합니다.
+            vi.spyOn(Date, 'now').mockImplementation(() => ++now);
+        });
+
+        it('evicts the least recently used entries over the quota', async () => {
+            const fetch = mockFetch();
+            vi.stubGlobal('fetch', fetch);
+            const { send, messages } = startWorker();
+            await send('LOAD_AUDIO', { batchId: 1, fileMap: fileMap('a', 'b'), cache, concurrency: 1 });
+
+            // a를 캐시에서 다시 읽으면 b가 가장 오래 쓰지 않은 항목이 됩니다.
+            await send('LOAD_AUDIO', { batchId: 2, fileMap: fileMap('a'), cache });
+            expect(fetch).toHaveBeenCalledTimes(2);
+            expect(ofType(messages, 'LOADED').find((loaded) => loaded.batchId === 2)!.cached).toBe(true);
+
+            // 세 번째 항목을 넣으면 300바이트가 되어 b가 지워집니다.
+            await send('LOAD_AUDIO', { batchId: 3, fileMap: fileMap('c'), cache });
+            await send('CACHE', { requestId: 1, op: 'has', cache, urls: [BASE + 'a', BASE + 'b', BASE + 'c'] });
+            expect(ofType(messages, 'CACHE_RESULT')[0]).toEqual({ requestId: 1, result: [true, false, true] });
+        });
+    });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { AudioEngine } from '../src/AudioEngine';
+import { PlayMessageData } from '../src/types';
+import { createEngine, render, SAMPLE_RATE } from './helpers';
+
+/**
+ * 샘플 값이 인덱스 / 10000인 램프 (출력 값으로 읽은 위치를 알 수 있음)
+ */
+function ramp(length: number): Float32Array {
+    const samples = new Float32Array(length);
+    for (let i = 0; i < length; i++) samples[i] = i / 10000;
+    return samples;
+}
+
+function play(engine: AudioEngine, data: PlayMessageData): void {
+    engine.handleMessage({ type: 'play', key: 'a', data });
+    engine.handleMessage({ type: 'adjustDynamics', key: 'a', data: { threshold: 0, ratio: 1 } });
+}
+
+/**
+ * 출력 샘플에서 읽은 소스 위치
+ */
+function positionAt(samples: Float32Array, index: number): number {
+    return Math.round(samples[index] * 10000);
+}
+
+describe('loop regions', () => {
+    it('plays the intro once and then repeats the loop region', () => {
+        const { engine } = createEngine();
+        play(engine, { channels: [ramp(3000)], loop: true, loopStart: 1000, loopEnd: 2000, loopUnit: 'samples' });
+        const [left] = render(engine, 5000);
+        expect(positionAt(left, 999)).toBe(999);
+        expect(positionAt(left, 1999)).toBe(1999);
+        expect(positionAt(left, 2000)).toBe(1000);
+        expect(positionAt(left, 4500)).toBe(1500);
+    });
+
+    it('accepts the region in seconds', () => {
+        const { engine } = createEngine();
+        play(engine, { channels: [ramp(SAMPLE_RATE / 10)], loop: true, loopStart: 0.05, loopEnd: 0.075 });
+        const [left] = render(engine, 4000);
+        expect(positionAt(left, 3600)).toBe(2400);
+    });
+
+    it('continues past the loop end after loopCount repeats', () => {
+        const { engine, events } = createEngine();
+        play(engine, { channels: [ramp(3000)], loop: true, loopStart: 1000, loopEnd: 2000, loopUnit: 'samples', loopCount: 2 });
+        const [left] = render(engine, 6000);
+        expect(events.filter((event) => event.type === 'looped')).toHaveLength(2);
+        expect(positionAt(left, 4500)).toBe(2500);
+        expect(events.some((event) => event.type === 'ended')).toBe(true);
+    });
+
+    it('changes the region while playing and can exit the loop', () => {
+        const { engine, events } = createEngine();
+        play(engine, { channels: [ramp(3000)], loop: true, loopStart: 1000, loopEnd: 2000, loopUnit: 'samples' });
+        render(engine, 2560);
+        engine.handleMessage({ type: 'setLoopRegion', key: 'a', data: { loopEnd: 1800, loopUnit: 'samples' } });
+        const [looped] = render(engine, 1280);
+        // 1560에서 이어 읽다가 1800에서 1000으로 되돌아감
+        expect(positionAt(looped, 239)).toBe(1799);
+        expect(positionAt(looped, 240)).toBe(1000);
+
+        engine.handleMessage({ type: 'setLoopRegion', key: 'a', data: { loop: false } });
+        render(engine, 3000);
+        expect(events.some((event) => event.type === 'ended')).toBe(true);
+    });
+
+    it('falls back to the whole buffer for an empty region', () => {
+        const { engine } = createEngine();
+        play(engine, { channels: [ramp(1000)], loop: true, loopStart: 800, loopEnd: 200, loopUnit: 'samples' });
+        const [left] = render(engine, 1500);
+        expect(positionAt(left, 1200)).toBe(200);
+    });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { LevelMeter } from '../src/meter';
+import { SAMPLE_RATE, sine } from './helpers';
+
+describe('LevelMeter', () => {
+    it('measures a 0 dBFS 997 Hz sine in one stereo channel as -3.01 LUFS', () => {
+        const meter = new LevelMeter(SAMPLE_RATE);
+        const left = sine(997, 5 * SAMPLE_RATE);
+        const right = new Float32Array(left.length);
+        for (let offset = 0; offset < left.length; offset += 128) {
+            meter.write([left.subarray(offset, offset + 128), right.subarray(offset, offset + 128)]);
+        }
+        const reading = meter.takeReading();
+        expect(reading.momentaryLufs).toBeCloseTo(-3.01, 1);
+        expect(reading.shortTermLufs).toBeCloseTo(-3.01, 1);
+        expect(reading.integratedLufs).toBeCloseTo(-3.01, 1);
+        expect(reading.peakDb).toBeCloseTo(0, 2);
+        // 두 채널 평균 제곱: (0.5 + 0) / 2 = 0.25 → -6.02dB
+        expect(reading.rmsDb).toBeCloseTo(-6.02, 1);
+    });
+
+    it('detects inter-sample peaks above the sample peak', () => {
+        const meter = new LevelMeter(SAMPLE_RATE);
+        // fs/4 사인파를 45도 위상으로 샘플링하면 샘플 피크는 -3dB, 실제 피크는 0dB
+        const samples = new Float32Array(4800);
+        for (let i = 0; i < samples.length; i++) samples[i] = Math.sin((Math.PI / 2) * i + Math.PI / 4);
+        meter.write([samples]);
+        const reading = meter.takeReading();
+        expect(reading.peakDb).toBeCloseTo(-3.01, 1);
+        expect(reading.truePeakDb).toBeGreaterThan(-0.2);
+    });
+
+    it('gates silence out of the integrated loudness and resets', () => {
+        const meter = new LevelMeter(SAMPLE_RATE);
+        meter.write([sine(997, 2 * SAMPLE_RATE, 0.1)]);
+        const loud = meter.takeReading().integratedLufs;
+        meter.write([new Float32Array(4 * SAMPLE_RATE)]);
+        expect(meter.takeReading().integratedLufs).toBeCloseTo(loud, 0);
+        meter.reset();
+        expect(meter.takeReading().integratedLufs).toBe(-Infinity);
+    });
+});
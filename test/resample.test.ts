@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { readSample } from '../src/resample';
+import { TrackLifecycleData, TrackPosition } from '../src/types';
+import { createEngine, peak, render, SAMPLE_RATE, sine, toDb } from './helpers';
+
+/**
+ * 배속으로 재생한 결과의 정상 상태 피크 (dB)
+ */
+function playedPeakDb(source: Float32Array, playbackRate: number, quality: 'linear' | 'cubic' | 'sinc'): number {
+    const { engine } = createEngine();
+    engine.handleMessage({ type: 'setInterpolation', key: '', data: quality });
+    engine.handleMessage({ type: 'play', key: 'a', data: { channels: [source], loop: true, playbackRate } });
+    engine.handleMessage({ type: 'adjustDynamics', key: 'a', data: { threshold: 0, ratio: 1 } });
+    const [left] = render(engine, 9600);
+    return toDb(peak(left, 4800));
+}
+
+describe('resampling', () => {
+    const source = sine(1000, 4800);
+
+    it('reads exact samples at integer positions', () => {
+        for (const quality of ['linear', 'cubic', 'sinc'] as const) {
+            expect(readSample(source, 100, quality, false)).toBeCloseTo(source[100], 5);
+        }
+    });
+
+    it('interpolates between samples more accurately with higher quality', () => {
+        const error = (quality: 'linear' | 'cubic' | 'sinc'): number => {
+            let max = 0;
+            for (let i = 100; i < 200; i++) {
+                const exact = Math.sin((2 * Math.PI * 1000 * (i + 0.5)) / SAMPLE_RATE);
+                max = Math.max(max, Math.abs(readSample(source, i + 0.5, quality, false) - exact));
+            }
+            return max;
+        };
+        expect(error('cubic')).toBeLessThan(error('linear') / 10);
+        expect(error('sinc')).toBeLessThan(1e-3);
+    });
+
+    it('wraps around the loop seam and goes silent past the end', () => {
+        expect(readSample(source, -1, 'cubic', true)).toBeCloseTo(source[source.length - 1], 6);
+        expect(readSample(source, source.length + 10, 'sinc', false)).toBe(0);
+    });
+
+    it('wraps within the loop region instead of the whole buffer', () => {
+        // 구간 [1000, 2000)만 0.5, 바깥은 1
+        const region = new Float32Array(3000).fill(1).fill(0.5, 1000, 2000);
+        const loop = { loopStart: 1000, loopEnd: 2000 };
+        for (const quality of ['linear', 'cubic', 'sinc'] as const) {
+            expect(readSample(region, 1999.5, quality, loop)).toBeCloseTo(0.5, 2);
+            expect(readSample(region, 1000.5, quality, loop)).toBeCloseTo(0.5, 2);
+        }
+        // 구간에 들어가기 전에는 앞쪽 원래 샘플을 읽음
+        expect(readSample(region, 999.5, 'cubic', loop)).toBeCloseTo(0.75, 2);
+    });
+
+    it('band-limits with sinc interpolation to avoid aliasing', () => {
+        // 2배속에서 20kHz는 나이퀴스트를 넘어 8kHz로 접힘
+        const high = sine(20000, 4800);
+        expect(playedPeakDb(high, 2, 'linear')).toBeGreaterThan(-20);
+        expect(playedPeakDb(high, 2, 'sinc')).toBeLessThan(-40);
+        // 통과 대역은 그대로 유지
+        expect(playedPeakDb(sine(1000, 4800), 2, 'sinc')).toBeCloseTo(0, 1);
+    });
+
+    it('plays buffers at their own sample rate', () => {
+        const { engine, events } = createEngine();
+        const channels = [new Float32Array(44100 / 2).fill(0.5)];
+        engine.handleMessage({ type: 'play', key: 'a', data: { channels, loop: false, sampleRate: 44100 } });
+        render(engine, SAMPLE_RATE);
+        const ended = events.find((event) => event.type === 'ended')!;
+        expect((ended.data as TrackLifecycleData).contextTime).toBeCloseTo(0.5, 3);
+        const position = events.find((event) => event.type === 'position')!;
+        expect((position.data as TrackPosition).duration).toBeCloseTo(0.5, 6);
+    });
+});
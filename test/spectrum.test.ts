@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { createLogVisualizerBands, createWindow, fftInPlace, isPowerOfTwo, SpectrumAnalyzer } from '../src/spectrum';
+import { SAMPLE_RATE, sine } from './helpers';
+
+/**
+ * 테스트용 FFT 테이블 생성
+ */
+function createTables(size: number) {
+    const cosTable = new Float64Array(size / 2);
+    const sinTable = new Float64Array(size / 2);
+    for (let k = 0; k < size / 2; k++) {
+        cosTable[k] = Math.cos((2 * Math.PI * k) / size);
+        sinTable[k] = Math.sin((2 * Math.PI * k) / size);
+    }
+    const bits = Math.log2(size);
+    const bitReverse = new Uint32Array(size);
+    for (let i = 0; i < size; i++) {
+        let reversed = 0;
+        for (let b = 0; b < bits; b++) reversed = (reversed << 1) | ((i >> b) & 1);
+        bitReverse[i] = reversed;
+    }
+    return { cosTable, sinTable, bitReverse };
+}
+
+describe('fftInPlace', () => {
+    it('matches a naive DFT', () => {
+        const size = 64;
+        const input = Array.from({ length: size }, (_, n) => Math.sin(n * 0.7) + 0.3 * Math.cos(n * 2.1) + (n % 5) * 0.1);
+        const re = Float64Array.from(input);
+        const im = new Float64Array(size);
+        const { cosTable, sinTable, bitReverse } = createTables(size);
+        fftInPlace(re, im, cosTable, sinTable, bitReverse);
+
+        for (let k = 0; k < size; k++) {
+            let expectedRe = 0;
+            let expectedIm = 0;
+            for (let n = 0; n < size; n++) {
+                expectedRe += input[n] * Math.cos((2 * Math.PI * k * n) / size);
+                expectedIm -= input[n] * Math.sin((2 * Math.PI * k * n) / size);
+            }
+            expect(re[k]).toBeCloseTo(expectedRe, 9);
+            expect(im[k]).toBeCloseTo(expectedIm, 9);
+        }
+    });
+});
+
+describe('spectrum helpers', () => {
+    it('checks powers of two', () => {
+        expect([32, 1024, 16384].every(isPowerOfTwo)).toBe(true);
+        expect([0, 48, 1000, 1.5].some(isPowerOfTwo)).toBe(false);
+    });
+
+    it('creates contiguous log-spaced bands', () => {
+        const bands = createLogVisualizerBands(10, 20, 20000);
+        expect(bands).toHaveLength(10);
+        expect(bands[0].startFrequency).toBeCloseTo(20);
+        expect(bands[9].endFrequency).toBeCloseTo(20000);
+        for (let i = 1; i < bands.length; i++) {
+            expect(bands[i].startFrequency).toBeCloseTo(bands[i - 1].endFrequency);
+            expect(bands[i].endFrequency / bands[i].startFrequency).toBeCloseTo(Math.pow(10, 0.3), 6);
+        }
+    });
+
+    it('creates windows that taper to zero', () => {
+        for (const type of ['hann', 'blackman'] as const) {
+            const window = createWindow(type, 256);
+            expect(window[0]).toBeCloseTo(0, 6);
+            expect(window[128]).toBeCloseTo(1, 6);
+        }
+        expect(Array.from(createWindow('rectangular', 8))).toEqual([1, 1, 1, 1, 1, 1, 1, 1]);
+    });
+});
+
+describe('SpectrumAnalyzer', () => {
+    const analyze = (analyzer: SpectrumAnalyzer, samples: Float32Array): number[][] => {
+        const frames: number[][] = [];
+        analyzer.write([samples], (levels) => frames.push(levels));
+        return frames;
+    };
+
+    it('reports a full-scale sine as 0 dB in its band for each window', () => {
+        for (const window of ['rectangular', 'hann', 'blackman'] as const) {
+            const analyzer = new SpectrumAnalyzer(SAMPLE_RATE);
+            analyzer.setBufferSize(4096);
+            analyzer.setBands([
+                { startFrequency: 800, endFrequency: 1200 },
+                { startFrequency: 5000, endFrequency: 8000 },
+            ]);
+            analyzer.configure({ window, scale: 'db', minDb: -120 });
+            const [levels] = analyze(analyzer, sine(1000, 4096));
+            expect(levels[0]).toBeCloseTo(0, 0);
+            expect(levels[1]).toBeLessThan(-30);
+        }
+    });
+
+    it('emits one frame per filled buffer', () => {
+        const analyzer = new SpectrumAnalyzer(SAMPLE_RATE);
+        analyzer.setBufferSize(32);
+        expect(analyze(analyzer, new Float32Array(128))).toHaveLength(4);
+        expect(analyzer.setBufferSize(1000)).toBe(false);
+    });
+
+    it('smooths decay over time', () => {
+        const analyzer = new SpectrumAnalyzer(SAMPLE_RATE);
+        analyzer.setBufferSize(1024);
+        analyzer.setBands([{ startFrequency: 500, endFrequency: 2000 }]);
+        analyzer.configure({ decayMs: 100 });
+        analyze(analyzer, sine(1000, 1024));
+        const [[afterSilence]] = analyze(analyzer, new Float32Array(1024));
+        // 1024샘플 ≈ 21ms → exp(-21.3 / 100) ≈ 0.81
+        expect(afterSilence).toBeCloseTo(Math.exp(-(1024 / SAMPLE_RATE) * 10), 1);
+    });
+});
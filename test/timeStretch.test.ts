@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { TrackLifecycleData, TrackPosition } from '../src/types';
+import { semitonesToRatio } from '../src/timeStretch';
+import { createEngine, peak, playDry, render, SAMPLE_RATE, sine } from './helpers';
+
+/**
+ * 구간 [from, to)의 상승 영교차 간격으로 추정한 주파수
+ */
+function estimateFrequency(samples: Float32Array, from: number, to: number): number {
+    let first = -1;
+    let last = -1;
+    let count = 0;
+    for (let i = from + 1; i < to; i++) {
+        if (samples[i - 1] < 0 && samples[i] >= 0) {
+            if (first < 0) first = i;
+            last = i;
+            count++;
+        }
+    }
+    return ((count - 1) * SAMPLE_RATE) / (last - first);
+}
+
+function endedTime(events: ReturnType<typeof createEngine>['events']): number {
+    const ended = events.find((event) => event.type === 'ended');
+    return ended ? (ended.data as TrackLifecycleData).contextTime : Infinity;
+}
+
+describe('time stretch', () => {
+    it('converts semitones to a frequency ratio', () => {
+        expect(semitonesToRatio(12)).toBeCloseTo(2, 10);
+        expect(semitonesToRatio(-12)).toBeCloseTo(0.5, 10);
+        expect(semitonesToRatio(0)).toBe(1);
+    });
+
+    it('shifts pitch without changing duration', () => {
+        const { engine, events } = createEngine();
+        playDry(engine, 'a', [sine(440, SAMPLE_RATE / 2)]);
+        engine.handleMessage({ type: 'adjustTimeStretch', key: 'a', data: { pitch: 7, cents: 5 } });
+        const [left] = render(engine, SAMPLE_RATE);
+        const expected = 440 * semitonesToRatio(7.05);
+        expect(estimateFrequency(left, 4800, 19200) / expected).toBeCloseTo(1, 2);
+        expect(peak(left, 4800, 19200)).toBeGreaterThan(0.8);
+        expect(endedTime(events)).toBeCloseTo(0.5, 2);
+    });
+
+    it('changes tempo while keeping the pitch', () => {
+        const { engine, events } = createEngine();
+        engine.handleMessage({ type: 'play', key: 'a', data: { channels: [sine(440, SAMPLE_RATE / 4)], loop: false, tempo: 0.5 } });
+        engine.handleMessage({ type: 'adjustDynamics', key: 'a', data: { threshold: 0, ratio: 1 } });
+        const [left] = render(engine, SAMPLE_RATE);
+        expect(estimateFrequency(left, 4800, 19200) / 440).toBeCloseTo(1, 2);
+        expect(endedTime(events)).toBeCloseTo(0.5, 2);
+    });
+
+    it('clamps tempo and reports it with the position', () => {
+        const { engine, events } = createEngine();
+        playDry(engine, 'a', [sine(440, SAMPLE_RATE)]);
+        engine.handleMessage({ type: 'adjustTimeStretch', key: 'a', data: { tempo: 10 } });
+        render(engine, 4800);
+        const positions = events.filter((event) => event.type === 'position');
+        const last = positions[positions.length - 1].data as TrackPosition;
+        // 범위(0.25 ~ 4)로 제한
+        expect(last.tempo).toBe(4);
+    });
+
+    it('bypasses the stretcher at the default tempo and pitch', () => {
+        const source = sine(440, 4800);
+        const { engine } = createEngine();
+        playDry(engine, 'a', [source]);
+        engine.handleMessage({ type: 'adjustTimeStretch', key: 'a', data: { tempo: 1, pitch: 0, cents: 0 } });
+        const [left] = render(engine, 1024);
+        expect(Array.from(left.subarray(0, 1024))).toEqual(Array.from(source.subarray(0, 1024)));
+    });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { removeFileName, resolveUrl } from '../src/utils';
+
+const PAGE = 'https://example.com/app/index.html';
+
+describe('url resolution', () => {
+    it('resolves paths against the base directory', () => {
+        expect(resolveUrl('kick.mp3', 'https://cdn.example.com/sounds/', PAGE)).toBe('https://cdn.example.com/sounds/kick.mp3');
+        expect(resolveUrl('sfx/kick.mp3', 'https://cdn.example.com/sounds/', PAGE)).toBe('https://cdn.example.com/sounds/sfx/kick.mp3');
+        expect(resolveUrl('../kick.mp3', 'https://cdn.example.com/sounds/', PAGE)).toBe('https://cdn.example.com/kick.mp3');
+        expect(resolveUrl('kick.mp3', 'https://cdn.example.com', PAGE)).toBe('https://cdn.example.com/kick.mp3');
+    });
+
+    it('drops the last segment and query from a base without a trailing slash', () => {
+        expect(resolveUrl('kick.mp3', 'https://cdn.example.com/sounds/manifest.json?v=2', PAGE)).toBe(
+            'https://cdn.example.com/sounds/kick.mp3'
+        );
+        expect(resolveUrl('kick.mp3', 'https://cdn.example.com/sounds', PAGE)).toBe('https://cdn.example.com/kick.mp3');
+    });
+
+    it('keeps a dotted directory ending in a slash', () => {
+        expect(resolveUrl('kick.mp3', 'https://cdn/x/audio.v2/', PAGE)).toBe('https://cdn/x/audio.v2/kick.mp3');
+        expect(resolveUrl('kick.mp3', 'https://cdn/x/audio.v2', PAGE)).toBe('https://cdn/x/kick.mp3');
+    });
+
+    it('resolves a relative base against the page', () => {
+        expect(resolveUrl('kick.mp3', 'assets/audio/', PAGE)).toBe('https://example.com/app/assets/audio/kick.mp3');
+        expect(resolveUrl('kick.mp3', '', PAGE)).toBe('https://example.com/app/kick.mp3');
+        expect(resolveUrl('/kick.mp3', 'assets', PAGE)).toBe('https://example.com/kick.mp3');
+    });
+
+    it('keeps absolute, data: and blob: URLs', () => {
+        for (const url of ['https://other.com/a.ogg', 'data:audio/wav;base64,UklGRg==', 'blob:https://example.com/1234']) {
+            expect(resolveUrl(url, 'https://cdn.example.com/sounds/', PAGE)).toBe(url);
+        }
+    });
+
+    it('returns the path unchanged when there is nothing to resolve against', () => {
+        expect(resolveUrl('kick.mp3', '', undefined)).toBe('kick.mp3');
+    });
+
+    it('removes the file name from a path', () => {
+        expect(removeFileName('https://cdn.example.com/sounds/a.mp3')).toBe('https://cdn.example.com/sounds');
+        expect(removeFileName('C:\\audio\\a.mp3')).toBe('C:\\audio');
+    });
+});
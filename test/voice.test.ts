@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { AudioEngine } from '../src/AudioEngine';
+import { VoiceStealPolicy } from '../src/types';
+import { createEngine, render } from './helpers';
+
+function constant(value: number, length: number): Float32Array {
+    return new Float32Array(length).fill(value);
+}
+
+/**
+ * 보이스로 재생하고 기본 컴프레서를 끕니다.
+ */
+function playVoice(engine: AudioEngine, voiceId: string, value: number = 0.1, length: number = 48000): void {
+    engine.handleMessage({ type: 'play', key: 'a', data: { channels: [constant(value, length)], loop: false, voiceId } });
+    engine.handleMessage({ type: 'adjustDynamics', key: voiceId, data: { threshold: 0, ratio: 1 } });
+}
+
+function setPolyphony(engine: AudioEngine, maxVoices: number, steal: VoiceStealPolicy = 'oldest'): void {
+    engine.handleMessage({ type: 'setPolyphony', key: 'a', data: { maxVoices, steal } });
+}
+
+describe('voices', () => {
+    it('layers voices of the same key', () => {
+        const { engine } = createEngine();
+        playVoice(engine, 'a#1');
+        playVoice(engine, 'a#2');
+        const [left] = render(engine, 128);
+        expect(left[64]).toBeCloseTo(0.2, 6);
+    });
+
+    it('steals the oldest voice when the limit is reached', () => {
+        const { engine, events } = createEngine();
+        setPolyphony(engine, 2);
+        playVoice(engine, 'a#1', 0.1);
+        render(engine, 128);
+        playVoice(engine, 'a#2', 0.2);
+        render(engine, 128);
+        playVoice(engine, 'a#3', 0.4);
+        const stolen = events.filter((event) => event.type === 'stolen');
+        expect(stolen.map((event) => event.voiceId)).toEqual(['a#1']);
+        expect(stolen[0].key).toBe('a');
+        // 짧은 페이드 아웃 후에는 나머지 두 보이스만 남음
+        const [left] = render(engine, 1024);
+        expect(left[1000]).toBeCloseTo(0.6, 6);
+    });
+
+    it('steals the quietest voice', () => {
+        const { engine, events } = createEngine();
+        setPolyphony(engine, 2, 'quietest');
+        playVoice(engine, 'a#1', 0.4);
+        playVoice(engine, 'a#2', 0.1);
+        render(engine, 256);
+        playVoice(engine, 'a#3', 0.2);
+        expect(events.find((event) => event.type === 'stolen')?.voiceId).toBe('a#2');
+    });
+
+    it('rejects new voices with the reject policy', () => {
+        const { engine, events } = createEngine();
+        setPolyphony(engine, 1, 'reject');
+        playVoice(engine, 'a#1', 0.1);
+        playVoice(engine, 'a#2', 0.4);
+        expect(events.find((event) => event.type === 'rejected')?.voiceId).toBe('a#2');
+        const [left] = render(engine, 128);
+        expect(left[64]).toBeCloseTo(0.1, 6);
+    });
+
+    it('adjusts one voice by its ID or every voice by the key', () => {
+        const { engine } = createEngine();
+        playVoice(engine, 'a#1', 0.1);
+        playVoice(engine, 'a#2', 0.2);
+        engine.handleMessage({ type: 'adjustVolume', key: 'a#2', data: 0.5 });
+        expect(render(engine, 128)[0][64]).toBeCloseTo(0.2, 6);
+
+        engine.handleMessage({ type: 'adjustVolume', key: 'a', data: 0 });
+        expect(render(engine, 128)[0][64]).toBe(0);
+    });
+
+    it('starts new voices with the settings sent to the key', () => {
+        const { engine } = createEngine();
+        playVoice(engine, 'a#1', 0.1);
+        engine.handleMessage({ type: 'adjustVolume', key: 'a', data: 0.5 });
+        playVoice(engine, 'a#2', 0.2);
+        expect(render(engine, 128)[0][64]).toBeCloseTo(0.15, 6);
+    });
+
+    it('releases voices when they end or stop', () => {
+        const { engine, events } = createEngine();
+        engine.handleMessage({ type: 'setPositionReportInterval', key: '', data: 1 });
+        playVoice(engine, 'a#1', 0.1, 256);
+        playVoice(engine, 'a#2', 0.1);
+        render(engine, 512);
+        engine.handleMessage({ type: 'stop', key: 'a#2', data: null });
+        render(engine, 128);
+        events.length = 0;
+
+        // 해제된 보이스는 더 이상 보고되지 않고, 키로 보낸 메시지도 적용되지 않음
+        engine.handleMessage({ type: 'resume', key: 'a', data: null });
+        render(engine, 256);
+        expect(events.filter((event) => event.type === 'position')).toHaveLength(0);
+        expect(render(engine, 128)[0].every((sample) => sample === 0)).toBe(true);
+    });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { encodeWav, WavFormat, WavSource } from '../src/wav';
+
+interface ParsedWav {
+    formatTag: number;
+    channelCount: number;
+    sampleRate: number;
+    byteRate: number;
+    blockAlign: number;
+    bitsPerSample: number;
+    chunks: string[];
+    factLength?: number;
+    samples: number[];
+}
+
+function source(channels: Float32Array[], sampleRate: number = 44100): WavSource {
+    return {
+        numberOfChannels: channels.length,
+        sampleRate,
+        length: channels[0].length,
+        getChannelData: (channel: number) => channels[channel],
+    };
+}
+
+function readString(view: DataView, offset: number): string {
+    return String.fromCharCode(...new Uint8Array(view.buffer, offset, 4));
+}
+
+/**
+ * 청크 단위로 WAV를 읽어 헤더 필드와 인터리브된 샘플을 반환합니다.
+ */
+async function parse(blob: Blob): Promise<ParsedWav> {
+    const view = new DataView(await blob.arrayBuffer());
+    expect(readString(view, 0)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(view.byteLength - 8);
+    expect(readString(view, 8)).toBe('WAVE');
+
+    const parsed = { chunks: [] as string[], samples: [] as number[] } as ParsedWav;
+    let offset = 12;
+    while (offset < view.byteLength) {
+        const id = readString(view, offset);
+        const size = view.getUint32(offset + 4, true);
+        const body = offset + 8;
+        parsed.chunks.push(id);
+        if (id === 'fmt ') {
+            parsed.formatTag = view.getUint16(body, true);
+            parsed.channelCount = view.getUint16(body + 2, true);
+            parsed.sampleRate = view.getUint32(body + 4, true);
+            parsed.byteRate = view.getUint32(body + 8, true);
+            parsed.blockAlign = view.getUint16(body + 12, true);
+            parsed.bitsPerSample = view.getUint16(body + 14, true);
+            if (size > 16) expect(view.getUint16(body + 16, true)).toBe(0);
+        } else if (id === 'fact') {
+            parsed.factLength = view.getUint32(body, true);
+        } else if (id === 'data') {
+            for (let i = body; i < body + size; i += parsed.bitsPerSample / 8) {
+                if (parsed.bitsPerSample === 16) parsed.samples.push(view.getInt16(i, true) / 0x8000);
+                else if (parsed.bitsPerSample === 24) parsed.samples.push(((view.getInt8(i + 2) << 16) | view.getUint16(i, true)) / 0x800000);
+                else parsed.samples.push(view.getFloat32(i, true));
+            }
+        }
+        offset = body + size + (size % 2);
+    }
+    return parsed;
+}
+
+describe('encodeWav', () => {
+    const left = new Float32Array([0, 0.5, -0.5, 0.25]);
+    const right = new Float32Array([1, -1, 0.125, -0.75]);
+    const interleaved = [0, 1, 0.5, -1, -0.5, 0.125, 0.25, -0.75];
+
+    const cases: [WavFormat, number, number, number][] = [
+        ['pcm16', 1, 16, 1 / 0x7fff],
+        ['pcm24', 1, 24, 1 / 0x7fffff],
+        ['float32', 3, 32, 0],
+    ];
+
+    for (const [format, formatTag, bitsPerSample, tolerance] of cases) {
+        it(`round-trips ${format} header fields and samples`, async () => {
+            const wav = await parse(encodeWav(source([left, right], 44100), { format }));
+            expect(wav.formatTag).toBe(formatTag);
+            expect(wav.channelCount).toBe(2);
+            expect(wav.sampleRate).toBe(44100);
+            expect(wav.blockAlign).toBe((2 * bitsPerSample) / 8);
+            expect(wav.byteRate).toBe(44100 * wav.blockAlign);
+            expect(wav.bitsPerSample).toBe(bitsPerSample);
+            expect(wav.samples).toHaveLength(interleaved.length);
+            wav.samples.forEach((sample, i) => {
+                expect(Math.abs(sample - interleaved[i])).toBeLessThanOrEqual(tolerance);
+            });
+        });
+    }
+
+    it('writes a fact chunk only for IEEE float', async () => {
+        const float = await parse(encodeWav(source([left]), { format: 'float32' }));
+        expect(float.chunks).toEqual(['fmt ', 'fact', 'data']);
+        expect(float.factLength).toBe(left.length);
+
+        const pcm = await parse(encodeWav(source([left])));
+        expect(pcm.chunks).toEqual(['fmt ', 'data']);
+        expect((await encodeWav(source([left])).arrayBuffer()).byteLength).toBe(44 + left.length * 2);
+    });
+
+    it('clips integer samples outside -1 to 1', async () => {
+        const wav = await parse(encodeWav(source([new Float32Array([2, -2])]), { format: 'pcm16' }));
+        expect(wav.samples[0]).toBeCloseTo(0x7fff / 0x8000, 6);
+        expect(wav.samples[1]).toBe(-1);
+    });
+});